@@ -10,6 +10,8 @@ import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
 import SeatBooking from "./pages/SeatBooking";
 import Admin from "./pages/Admin";
+import Ticket from "./pages/Ticket";
+import CheckIn from "./pages/CheckIn";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,7 +26,9 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Login />} />
             <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-            <Route path="/book" element={<ProtectedRoute><SeatBooking /></ProtectedRoute>} />
+            <Route path="/book/:showId" element={<ProtectedRoute><SeatBooking /></ProtectedRoute>} />
+            <Route path="/ticket/:showId" element={<ProtectedRoute><Ticket /></ProtectedRoute>} />
+            <Route path="/checkin" element={<ProtectedRoute requireUsher={true}><CheckIn /></ProtectedRoute>} />
             <Route path="/admin" element={<ProtectedRoute requireAdmin={true}><Admin /></ProtectedRoute>} />
             <Route path="*" element={<NotFound />} />
           </Routes>
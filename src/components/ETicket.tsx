@@ -0,0 +1,35 @@
+import { QRCodeSVG } from "qrcode.react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import type { Database } from "@/integrations/supabase/types";
+
+export type Ticket = Database["public"]["Functions"]["get_my_tickets"]["Returns"][number];
+
+interface ETicketProps {
+  ticket: Ticket;
+  /** Lets the page find the QR code to download it */
+  qrId?: string;
+}
+
+const ETicket = ({ ticket, qrId }: ETicketProps) => (
+  <Card className="border-2 border-dashed border-primary/40 rounded-2xl break-inside-avoid">
+    <CardContent className="flex flex-col sm:flex-row items-center gap-6 p-6">
+      <QRCodeSVG id={qrId} value={ticket.code} size={176} level="M" marginSize={2} />
+
+      <div className="space-y-2 text-center sm:text-left">
+        <p className="text-sm uppercase tracking-widest text-muted-foreground">PranSpanda Theatre</p>
+        <p className="text-xl font-semibold">{ticket.show_title}</p>
+        <p className="text-sm text-muted-foreground">
+          {format(new Date(ticket.starts_at), "EEE d MMM yyyy, HH:mm")}
+        </p>
+        <p className="text-5xl font-bold text-primary">{ticket.seat_label}</p>
+        <p className="text-sm">{ticket.email}</p>
+        {ticket.is_companion && <Badge variant="secondary">Companion seat</Badge>}
+        <p className="text-xs text-muted-foreground font-mono">#{ticket.booking_id.slice(0, 8)}</p>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default ETicket;
@@ -0,0 +1,99 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, X } from "lucide-react";
+import { getSeatLabel } from "@/lib/seatLayout";
+
+export interface Colleague {
+  user_id: string;
+  email: string;
+  has_booking: boolean;
+}
+
+interface GroupSeat {
+  id: string;
+  row_num: number;
+  col_num: number;
+}
+
+interface GroupAssignmentPanelProps {
+  seats: GroupSeat[];
+  colleagues: Colleague[];
+  currentUserId?: string;
+  /** seat id -> colleague user id */
+  assignments: Record<string, string>;
+  booking?: boolean;
+  onAssign: (seatId: string, userId: string) => void;
+  onClear: () => void;
+  onBook: () => void;
+}
+
+const GroupAssignmentPanel = ({
+  seats,
+  colleagues,
+  currentUserId,
+  assignments,
+  booking = false,
+  onAssign,
+  onClear,
+  onBook,
+}: GroupAssignmentPanelProps) => {
+  const assigned = new Set(Object.values(assignments));
+  const complete = seats.length >= 2 && seats.every(s => assignments[s.id]);
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="w-5 h-5 text-primary" />
+          Group Booking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {seats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Pick two or more seats next to each other in one row, then choose who sits where.
+          </p>
+        ) : (
+          <>
+            {seats.map(seat => (
+              <div key={seat.id} className="flex items-center gap-3">
+                <span className="w-12 font-bold">{getSeatLabel(seat.row_num, seat.col_num)}</span>
+                <Select
+                  value={assignments[seat.id] ?? ""}
+                  onValueChange={userId => onAssign(seat.id, userId)}
+                >
+                  <SelectTrigger className="flex-1"><SelectValue placeholder="Choose a colleague" /></SelectTrigger>
+                  <SelectContent>
+                    {colleagues
+                      .filter(c => c.user_id === assignments[seat.id] || (!c.has_booking && !assigned.has(c.user_id)))
+                      .map(c => (
+                        <SelectItem key={c.user_id} value={c.user_id}>
+                          {c.email}{c.user_id === currentUserId ? " (you)" : ""}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <p className="text-xs text-muted-foreground">
+              Colleagues see their seat on their dashboard and can accept or decline it.
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" className="gap-1" onClick={onClear} disabled={booking}>
+                <X size={14} /> Clear
+              </Button>
+              <Button onClick={onBook} disabled={booking || !complete}>
+                Book {seats.length} Seats
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GroupAssignmentPanel;
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Wand2 } from "lucide-react";
+import { LayoutDefinition, getSeatLabel, getSeatPositions, hasSeatAt } from "@/lib/seatLayout";
+
+interface PreviewSeat {
+  row_num: number;
+  col_num: number;
+  is_booked: boolean;
+  status: string;
+}
+
+interface PreviewBooking {
+  id: string;
+  user_email: string;
+  row_num: number;
+  col_num: number;
+}
+
+export interface Relocation {
+  booking_id: string;
+  row: number;
+  col: number;
+}
+
+interface LayoutChangePreviewProps {
+  open: boolean;
+  rows: number;
+  definition: LayoutDefinition;
+  seats: PreviewSeat[];
+  bookings: PreviewBooking[];
+  applying?: boolean;
+  onAbort: () => void;
+  onApply: (relocations: Relocation[]) => void;
+}
+
+const key = (row: number, col: number) => `${row}:${col}`;
+
+const parseKey = (k: string) => {
+  const [row, col] = k.split(":").map(Number);
+  return { row, col };
+};
+
+const LayoutChangePreview = ({
+  open,
+  rows,
+  definition,
+  seats,
+  bookings,
+  applying = false,
+  onAbort,
+  onApply,
+}: LayoutChangePreviewProps) => {
+  // booking id -> target position key
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setTargets({});
+  }, [open, rows, definition]);
+
+  const { added, removed, affected, freeTargets } = useMemo(() => {
+    const existing = new Map(seats.map(s => [key(s.row_num, s.col_num), s]));
+    const positions = getSeatPositions(definition, rows);
+
+    return {
+      added: positions.filter(p => !existing.has(key(p.row, p.col))),
+      removed: seats.filter(s => !hasSeatAt(definition, rows, s.row_num, s.col_num)),
+      affected: bookings.filter(b => !hasSeatAt(definition, rows, b.row_num, b.col_num)),
+      freeTargets: positions
+        .filter(p => {
+          const seat = existing.get(key(p.row, p.col));
+          return !seat?.is_booked && seat?.status !== "blocked";
+        })
+        .map(p => key(p.row, p.col)),
+    };
+  }, [rows, definition, seats, bookings]);
+
+  const taken = new Set(Object.values(targets));
+  const allRelocated = affected.every(b => targets[b.id]);
+
+  // Greedy nearest free seat for every booking without a target yet
+  const handleAutoAssign = () => {
+    const next = { ...targets };
+    const used = new Set(Object.values(next));
+
+    for (const b of affected) {
+      if (next[b.id]) continue;
+
+      let best: string | null = null;
+      let bestDistance = Infinity;
+      for (const k of freeTargets) {
+        if (used.has(k)) continue;
+        const { row, col } = parseKey(k);
+        const distance = (row - b.row_num) ** 2 + (col - b.col_num) ** 2;
+        if (distance < bestDistance) {
+          best = k;
+          bestDistance = distance;
+        }
+      }
+
+      if (best) {
+        next[b.id] = best;
+        used.add(best);
+      }
+    }
+
+    setTargets(next);
+  };
+
+  const handleApply = () =>
+    onApply(affected.map(b => ({ booking_id: b.id, ...parseKey(targets[b.id]) })));
+
+  return (
+    <AlertDialog open={open} onOpenChange={o => !o && !applying && onAbort()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Review Layout Change</AlertDialogTitle>
+          <AlertDialogDescription>
+            Nothing is changed until you apply. Bookings outside the new layout must be moved first.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">+{added.length} seats added</Badge>
+          <Badge variant="secondary">−{removed.length} seats removed</Badge>
+          <Badge variant={affected.length ? "destructive" : "secondary"}>
+            {affected.length} booking{affected.length === 1 ? "" : "s"} affected
+          </Badge>
+        </div>
+
+        {removed.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Removed: {removed.map(s => getSeatLabel(s.row_num, s.col_num)).join(", ")}
+          </p>
+        )}
+
+        {affected.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Current seat</TableHead>
+                  <TableHead>Move to</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {affected.map(b => (
+                  <TableRow key={b.id}>
+                    <TableCell>{b.user_email}</TableCell>
+                    <TableCell>{getSeatLabel(b.row_num, b.col_num)}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={targets[b.id] ?? ""}
+                        onValueChange={v => setTargets(t => ({ ...t, [b.id]: v }))}
+                      >
+                        <SelectTrigger className="w-28"><SelectValue placeholder="Pick seat" /></SelectTrigger>
+                        <SelectContent>
+                          {freeTargets
+                            .filter(k => k === targets[b.id] || !taken.has(k))
+                            .map(k => {
+                              const { row, col } = parseKey(k);
+                              return (
+                                <SelectItem key={k} value={k}>
+                                  {getSeatLabel(row, col)}
+                                </SelectItem>
+                              );
+                            })}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={applying}>Abort</AlertDialogCancel>
+          {affected.length > 0 && (
+            <Button variant="outline" className="gap-2" onClick={handleAutoAssign} disabled={applying}>
+              <Wand2 size={14} /> Auto-assign
+            </Button>
+          )}
+          <Button onClick={handleApply} disabled={applying || !allRelocated}>
+            {applying ? "Applying..." : "Apply Layout"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default LayoutChangePreview;
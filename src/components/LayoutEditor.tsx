@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import SeatGrid from "@/components/SeatGrid";
+import {
+  LayoutDefinition,
+  LayoutRowOverride,
+  getSeatLabel,
+  getSectionSpans,
+  getTotalColumns,
+  isGap,
+} from "@/lib/seatLayout";
+
+interface LayoutEditorProps {
+  rows: number;
+  definition: LayoutDefinition;
+  saving?: boolean;
+  onSave: (rows: number, definition: LayoutDefinition) => void;
+}
+
+const LayoutEditor = ({ rows, definition, saving = false, onSave }: LayoutEditorProps) => {
+  const [draftRows, setDraftRows] = useState(String(rows));
+  const [draft, setDraft] = useState<LayoutDefinition>(definition);
+  const [aisleRows, setAisleRows] = useState(definition.aisleAfterRows.join(", "));
+
+  useEffect(() => {
+    setDraftRows(String(rows));
+    setDraft(definition);
+    setAisleRows(definition.aisleAfterRows.join(", "));
+  }, [rows, definition]);
+
+  const rowCount = Math.max(0, parseInt(draftRows) || 0);
+  const spans = getSectionSpans(draft);
+
+  // ---------- sections ----------
+
+  const renameSection = (index: number, name: string) =>
+    setDraft(d => ({
+      ...d,
+      sections: d.sections.map((s, i) => (i === index ? { ...s, name } : s)),
+    }));
+
+  const resizeSection = (index: number, columns: number) =>
+    setDraft(d => {
+      const span = getSectionSpans(d)[index];
+      const delta = columns - span.columns;
+      return {
+        ...d,
+        sections: d.sections.map((s, i) => (i === index ? { ...s, columns } : s)),
+        // Shift gaps right of the section, drop gaps that fell off its end
+        gaps: d.gaps
+          .filter(g => g.col > span.end || g.col < span.start + columns)
+          .map(g => (g.col > span.end ? { ...g, col: g.col + delta } : g)),
+      };
+    });
+
+  const addSection = () =>
+    setDraft(d => ({
+      ...d,
+      sections: [...d.sections, { name: String.fromCharCode(65 + d.sections.length), columns: 4 }],
+    }));
+
+  const removeSection = (index: number) =>
+    setDraft(d => {
+      const span = getSectionSpans(d)[index];
+      const rowOverrides: Record<string, LayoutRowOverride> = {};
+      for (const [row, o] of Object.entries(d.rowOverrides)) {
+        rowOverrides[row] = { ...o, seats: o.seats?.filter((_, i) => i !== index) };
+      }
+      return {
+        ...d,
+        sections: d.sections.filter((_, i) => i !== index),
+        rowOverrides,
+        gaps: d.gaps
+          .filter(g => g.col < span.start || g.col > span.end)
+          .map(g => (g.col > span.end ? { ...g, col: g.col - span.columns } : g)),
+      };
+    });
+
+  // ---------- rows ----------
+
+  const updateRow = (row: number, patch: LayoutRowOverride) =>
+    setDraft(d => {
+      const next = { ...d.rowOverrides[row], ...patch };
+      const rowOverrides = { ...d.rowOverrides };
+      const empty = !next.offset && !next.seats?.some(n => n != null);
+      if (empty) delete rowOverrides[row];
+      else rowOverrides[row] = next;
+      return { ...d, rowOverrides };
+    });
+
+  const setRowSeats = (row: number, sectionIndex: number, value: string) => {
+    const seats = [...(draft.rowOverrides[row]?.seats ?? [])];
+    seats[sectionIndex] = value === "" ? undefined : Math.max(0, parseInt(value) || 0);
+    updateRow(row, { seats });
+  };
+
+  const toggleGap = (row: number, col: number) =>
+    setDraft(d => ({
+      ...d,
+      gaps: isGap(d, row, col)
+        ? d.gaps.filter(g => !(g.row === row && g.col === col))
+        : [...d.gaps, { row, col }],
+    }));
+
+  const handleSave = () => {
+    const aisleAfterRows = aisleRows
+      .split(",")
+      .map(v => parseInt(v.trim()))
+      .filter(n => n > 0 && n < rowCount);
+
+    // Drop settings for rows that no longer exist
+    const rowOverrides = Object.fromEntries(
+      Object.entries(draft.rowOverrides).filter(([row]) => Number(row) <= rowCount)
+    );
+    const gaps = draft.gaps.filter(g => g.row <= rowCount);
+
+    onSave(rowCount, { ...draft, aisleAfterRows, rowOverrides, gaps });
+  };
+
+  return (
+    <div className="space-y-6">
+
+      <div className="flex flex-wrap gap-4">
+        <div className="space-y-1">
+          <Label>Rows</Label>
+          <Input type="number" min={1} className="w-24" value={draftRows} onChange={e => setDraftRows(e.target.value)} />
+        </div>
+        <div className="space-y-1 flex-1">
+          <Label>Cross aisle after rows</Label>
+          <Input placeholder="e.g. 5, 12" value={aisleRows} onChange={e => setAisleRows(e.target.value)} />
+        </div>
+      </div>
+
+      {/* Sections */}
+      <div className="space-y-2">
+        <Label>Sections (left to right, aisle between each) · {getTotalColumns(draft)} columns</Label>
+        {draft.sections.map((s, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <Input className="w-24" value={s.name} onChange={e => renameSection(i, e.target.value)} />
+            <Input
+              type="number"
+              min={1}
+              className="w-24"
+              value={s.columns}
+              onChange={e => resizeSection(i, Math.max(1, parseInt(e.target.value) || 1))}
+            />
+            <span className="text-sm text-muted-foreground">seats wide</span>
+            <Button size="sm" variant="ghost" disabled={draft.sections.length === 1} onClick={() => removeSection(i)}>
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={addSection}><Plus size={14} /> Add section</Button>
+      </div>
+
+      {/* Per-row settings */}
+      <div className="space-y-2">
+        <Label>Per-row seats and offsets (leave blank for the full section width)</Label>
+        <div className="max-h-72 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                {spans.map(s => <TableHead key={s.index}>{s.name}</TableHead>)}
+                <TableHead>Offset (½ seats)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Array.from({ length: rowCount }, (_, r) => {
+                const row = r + 1;
+                const override = draft.rowOverrides[row];
+                return (
+                  <TableRow key={row}>
+                    <TableCell>{row}</TableCell>
+                    {spans.map(s => (
+                      <TableCell key={s.index}>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={s.columns}
+                          className="w-20 h-8"
+                          placeholder={String(s.columns)}
+                          value={override?.seats?.[s.index] ?? ""}
+                          onChange={e => setRowSeats(row, s.index, e.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Input
+                        type="number"
+                        className="w-20 h-8"
+                        placeholder="0"
+                        value={override?.offset ?? ""}
+                        onChange={e => updateRow(row, { offset: parseInt(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="space-y-2">
+        <Label>Preview · click a seat to mark it missing (e.g. a pillar), click again to restore</Label>
+        <div className="overflow-x-auto border rounded-md p-4">
+          <SeatGrid
+            rows={rowCount}
+            definition={draft}
+            cellSize={28}
+            showRowNumbers
+            renderSeat={(row, col) => (
+              <button
+                key={col}
+                title={getSeatLabel(row, col)}
+                onClick={() => toggleGap(row, col)}
+                className="w-7 h-7 rounded bg-green-400 text-[10px]"
+              >
+                {getSeatLabel(row, col)}
+              </button>
+            )}
+            renderGap={(row, col) => (
+              <button
+                title={`${getSeatLabel(row, col)} (missing)`}
+                onClick={() => toggleGap(row, col)}
+                className="w-7 h-7 rounded border-2 border-dashed border-muted-foreground/40 bg-muted"
+              />
+            )}
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={saving || rowCount < 1 || getTotalColumns(draft) < 1}>
+        {saving ? "Saving..." : "Save Layout"}
+      </Button>
+    </div>
+  );
+};
+
+export default LayoutEditor;
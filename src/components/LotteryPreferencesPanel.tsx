@@ -0,0 +1,108 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LayoutSection, getSeatLabel } from "@/lib/seatLayout";
+import { ArrowDown, ArrowUp, Dices, Plus, X } from "lucide-react";
+
+/** A ranked choice: one specific seat, or any seat in a section */
+export type LotteryPreference =
+  | { seat_id: string; row_num: number; col_num: number }
+  | { section_index: number };
+
+interface LotteryPreferencesPanelProps {
+  preferences: LotteryPreference[];
+  sections: LayoutSection[];
+  submitted: boolean;
+  busy?: boolean;
+  onChange: (preferences: LotteryPreference[]) => void;
+  onSubmit: () => void;
+  onWithdraw: () => void;
+}
+
+const LotteryPreferencesPanel = ({
+  preferences,
+  sections,
+  submitted,
+  busy = false,
+  onChange,
+  onSubmit,
+  onWithdraw,
+}: LotteryPreferencesPanelProps) => {
+  const move = (index: number, by: number) => {
+    const next = [...preferences];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  };
+
+  const describe = (p: LotteryPreference) =>
+    "seat_id" in p
+      ? `Seat ${getSeatLabel(p.row_num, p.col_num)}`
+      : `Any seat in block ${sections[p.section_index]?.name ?? p.section_index + 1}`;
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Dices className="w-5 h-5 text-primary" />
+          Your Lottery Preferences
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Click seats in the order you want them, or add whole blocks. When the draw reaches you,
+          you get your highest-ranked choice that is still free.
+        </p>
+
+        {preferences.map((p, i) => (
+          <div key={"seat_id" in p ? p.seat_id : `section-${p.section_index}`} className="flex items-center gap-3">
+            <span className="w-8 font-bold text-primary">#{i + 1}</span>
+            <span className="flex-1">{describe(p)}</span>
+            <Button size="icon" variant="ghost" disabled={busy || i === 0} onClick={() => move(i, -1)}>
+              <ArrowUp size={14} />
+            </Button>
+            <Button size="icon" variant="ghost" disabled={busy || i === preferences.length - 1} onClick={() => move(i, 1)}>
+              <ArrowDown size={14} />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              disabled={busy}
+              onClick={() => onChange(preferences.filter((_, j) => j !== i))}
+            >
+              <X size={14} />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          {sections.map((section, index) =>
+            preferences.some((p) => "section_index" in p && p.section_index === index) ? null : (
+              <Button
+                key={index}
+                size="sm"
+                variant="outline"
+                className="gap-1"
+                disabled={busy}
+                onClick={() => onChange([...preferences, { section_index: index }])}
+              >
+                <Plus size={14} /> Any seat in block {section.name}
+              </Button>
+            )
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {submitted && (
+            <Button variant="ghost" className="text-destructive" onClick={onWithdraw} disabled={busy}>
+              Withdraw Application
+            </Button>
+          )}
+          <Button onClick={onSubmit} disabled={busy || preferences.length === 0}>
+            {submitted ? "Update Preferences" : "Enter the Lottery"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LotteryPreferencesPanel;
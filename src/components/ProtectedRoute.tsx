@@ -4,11 +4,14 @@ import { Navigate, useLocation } from "react-router-dom";
 const ProtectedRoute = ({
   children,
   requireAdmin = false,
+  requireUsher = false,
 }: {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  /** Ushers or admins */
+  requireUsher?: boolean;
 }) => {
-  const { user, loading, isAdmin } = useAuth();
+  const { user, loading, isAdmin, canCheckIn } = useAuth();
   const location = useLocation();
 
   if (loading) {
@@ -23,7 +26,7 @@ const ProtectedRoute = ({
     return <Navigate to="/" state={{ from: location }} replace />;
   }
 
-  if (requireAdmin && !isAdmin) {
+  if ((requireAdmin && !isAdmin) || (requireUsher && !canCheckIn)) {
     return <Navigate to="/dashboard" replace />;
   }
 
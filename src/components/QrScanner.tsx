@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CameraOff } from "lucide-react";
+
+interface QrScannerProps {
+  /** Called for every frame with a readable code; callers debounce repeats */
+  onScan: (code: string) => void;
+}
+
+/** Live camera preview that decodes QR codes, preferring the back camera on phones. */
+const QrScanner = ({ onScan }: QrScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the camera on every render
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let cancelled = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d", { willReadFrequently: true });
+
+      if (video && canvas && context && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+        if (code?.data) onScanRef.current(code.data);
+      }
+
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (cancelled || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(tick);
+      } catch (err) {
+        console.error(err);
+        setError("The camera is not available. Allow camera access or use the lookup instead.");
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center gap-2 p-8 text-center text-muted-foreground">
+        <CameraOff className="w-10 h-10" />
+        <p className="text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mx-auto w-full max-w-sm overflow-hidden rounded-xl bg-black">
+      <video ref={videoRef} className="w-full" muted playsInline aria-label="Camera preview for scanning tickets" />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className="pointer-events-none absolute inset-8 rounded-lg border-4 border-white/70" />
+    </div>
+  );
+};
+
+export default QrScanner;
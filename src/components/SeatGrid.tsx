@@ -0,0 +1,157 @@
+import React, { useRef, useState } from "react";
+import {
+  LayoutDefinition,
+  SeatMove,
+  getCellKind,
+  getRowOffset,
+  getSeatInDirection,
+  getSectionSpans,
+  hasSeatAt,
+} from "@/lib/seatLayout";
+
+/** Roving focus for a seat; only set when the grid is keyboard navigable */
+export interface SeatCellProps {
+  tabIndex?: number;
+  onFocus?: () => void;
+}
+
+interface SeatGridProps {
+  rows: number;
+  definition: LayoutDefinition;
+  /** Seat size in px, used to size spacers and row offsets */
+  cellSize?: number;
+  showRowNumbers?: boolean;
+  /** Renders the map as an ARIA grid with arrow-key navigation */
+  label?: string;
+  renderSeat: (row: number, col: number, cell: SeatCellProps) => React.ReactNode;
+  renderGap?: (row: number, col: number) => React.ReactNode;
+}
+
+const SEAT_GAP = 4;
+
+const KEY_MOVES: Record<string, SeatMove> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
+  Home: "rowStart",
+  End: "rowEnd",
+};
+
+const SeatGrid = ({
+  rows,
+  definition,
+  cellSize = 40,
+  showRowNumbers = false,
+  label,
+  renderSeat,
+  renderGap,
+}: SeatGridProps) => {
+  const sections = getSectionSpans(definition);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<{ row: number; col: number } | null>(null);
+
+  const isGrid = !!label;
+  // Fall back to the first seat when nothing was focused yet or the layout changed under it
+  const focusCell =
+    active && hasSeatAt(definition, rows, active.row, active.col)
+      ? active
+      : getSeatInDirection(definition, rows, { row: 1, col: 1 }, "first");
+
+  const spacer = (key: React.Key) => (
+    <div key={key} role={isGrid ? "none" : undefined} style={{ width: cellSize, height: cellSize }} />
+  );
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const move = e.ctrlKey && (e.key === "Home" || e.key === "End")
+      ? e.key === "Home" ? "first" : "last"
+      : KEY_MOVES[e.key];
+    if (!move || !focusCell) return;
+
+    e.preventDefault();
+    const target = getSeatInDirection(definition, rows, focusCell, move);
+    if (!target) return;
+
+    setActive(target);
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-row="${target.row}"][data-col="${target.col}"] > *`)
+      ?.focus();
+  };
+
+  const seatCell = (row: number, col: number) => {
+    if (!isGrid) return renderSeat(row, col, {});
+
+    const isActive = focusCell?.row === row && focusCell?.col === col;
+    return (
+      <div key={col} role="gridcell" aria-colindex={col} data-row={row} data-col={col}>
+        {renderSeat(row, col, {
+          tabIndex: isActive ? 0 : -1,
+          onFocus: () => setActive({ row, col }),
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={gridRef}
+      role={isGrid ? "grid" : undefined}
+      aria-label={label}
+      aria-rowcount={isGrid ? rows : undefined}
+      onKeyDown={isGrid ? handleKeyDown : undefined}
+      className="space-y-3"
+    >
+      {Array.from({ length: rows }, (_, r) => {
+        const rowNum = r + 1;
+        const offset = getRowOffset(definition, rowNum) * ((cellSize + SEAT_GAP) / 2);
+
+        return (
+          <React.Fragment key={rowNum}>
+            <div
+              role={isGrid ? "row" : undefined}
+              aria-rowindex={isGrid ? rowNum : undefined}
+              className="flex gap-8 items-center justify-center"
+            >
+
+              {/* Row Number */}
+              {showRowNumbers && (
+                <div
+                  role={isGrid ? "rowheader" : undefined}
+                  aria-label={isGrid ? `Row ${rowNum}` : undefined}
+                  className="w-6 text-xs text-muted-foreground text-right"
+                >
+                  {rowNum}
+                </div>
+              )}
+
+              {/* Sections, separated by aisles */}
+              <div role={isGrid ? "none" : undefined} className="flex gap-6" style={{ marginLeft: offset }}>
+                {sections.map((section) => (
+                  <div key={section.index} role={isGrid ? "none" : undefined} className="flex gap-1">
+                    {Array.from({ length: section.columns }, (_, i) => {
+                      const col = section.start + i;
+                      const kind = getCellKind(definition, rowNum, col);
+
+                      if (kind === "seat") return seatCell(rowNum, col);
+                      if (kind === "gap" && renderGap) {
+                        return <React.Fragment key={col}>{renderGap(rowNum, col)}</React.Fragment>;
+                      }
+                      return spacer(col);
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Cross aisle */}
+            {definition.aisleAfterRows.includes(rowNum) && (
+              <div role={isGrid ? "none" : undefined} style={{ height: cellSize / 2 }} />
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SeatGrid;
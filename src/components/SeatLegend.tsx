@@ -0,0 +1,34 @@
+import { ReactNode } from "react";
+import type { LucideIcon } from "lucide-react";
+import { SEAT_STATUS_CLASSES, SEAT_STATUS_ICONS, SEAT_STATUS_LABELS, SeatStatus } from "@/lib/seatStatus";
+
+interface SeatLegendProps {
+  statuses: SeatStatus[];
+  /** Page-specific entries, e.g. the user's own or selected seat */
+  children?: ReactNode;
+}
+
+export const LegendItem = ({ className, label, icon: Icon }: { className: string; label: string; icon?: LucideIcon | null }) => (
+  <div className="flex items-center gap-2">
+    <div className={`w-5 h-5 rounded flex items-center justify-center ${className}`}>
+      {Icon && <Icon className="w-3 h-3" aria-hidden />}
+    </div>
+    {label}
+  </div>
+);
+
+const SeatLegend = ({ statuses, children }: SeatLegendProps) => (
+  <div className="flex flex-wrap justify-center gap-x-8 gap-y-2 text-sm">
+    {statuses.map(status => (
+      <LegendItem
+        key={status}
+        className={SEAT_STATUS_CLASSES[status]}
+        label={SEAT_STATUS_LABELS[status]}
+        icon={SEAT_STATUS_ICONS[status]}
+      />
+    ))}
+    {children}
+  </div>
+);
+
+export default SeatLegend;
@@ -3,12 +3,22 @@ import { Session, User } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 
+// code is one of the login function's error codes, e.g. "unknown_email", "wrong_uti", "locked"
+export interface LoginResult {
+  error?: string;
+  code?: string;
+  /** Set with code "locked": when sign-in is allowed again */
+  lockedUntil?: string;
+}
+
 interface AuthContextType {
   session: Session | null;
   user: User | null;
   isAdmin: boolean;
+  /** Ushers and admins may check guests in at the door */
+  canCheckIn: boolean;
   loading: boolean;
-  login: (email: string, uti: string) => Promise<{ error?: string }>;
+  login: (email: string, uti: string) => Promise<LoginResult>;
   logout: () => Promise<void>;
 }
 
@@ -18,6 +28,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [canCheckIn, setCanCheckIn] = useState(false);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -27,15 +38,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       .from("user_roles")
       .select("role")
       .eq("user_id", userId)
-      .eq("role", "admin")
-      .maybeSingle();
+      .in("role", ["admin", "usher"]);
 
     if (error) throw error;
 
-    setIsAdmin(!!data);
+    const admin = !!data?.some((r) => r.role === "admin");
+    setIsAdmin(admin);
+    setCanCheckIn(admin || !!data?.some((r) => r.role === "usher"));
   } catch (err) {
     console.error("Admin role check failed:", err);
     setIsAdmin(false);
+    setCanCheckIn(false);
   }
 };
 
@@ -76,6 +89,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           checkAdminRole(session.user.id);
         } else {
           setIsAdmin(false);
+          setCanCheckIn(false);
         }
       } catch (err) {
         console.error("Error in onAuthStateChange role check:", err);
@@ -88,7 +102,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, [navigate]);
 
-  const login = async (email: string, uti: string): Promise<{ error?: string }> => {
+  const login = async (email: string, uti: string): Promise<LoginResult> => {
     try {
       console.log("Login attempt:", email.trim().toLowerCase());
 
@@ -109,14 +123,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (!response.ok) {
         const errData = await response.json().catch(() => ({}));
         console.error("Login failed - server response:", errData);
-        return { error: errData.error || `Server error (${response.status})` };
+        return {
+          error: errData.error || `Server error (${response.status})`,
+          code: errData.code,
+          lockedUntil: errData.locked_until,
+        };
       }
 
       const data = await response.json();
       console.log("Login response data:", data);
 
       if (data.error) {
-        return { error: data.error };
+        return { error: data.error, code: data.code };
       }
 
       if (!data.session?.access_token || !data.session?.refresh_token) {
@@ -155,6 +173,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setSession(null);
       setUser(null);
       setIsAdmin(false);
+      setCanCheckIn(false);
 
       localStorage.removeItem("sb-" + import.meta.env.VITE_SUPABASE_PROJECT_REF + "-auth-token");
 
@@ -166,7 +185,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ session, user, isAdmin, loading, login, logout }}>
+    <AuthContext.Provider value={{ session, user, isAdmin, canCheckIn, loading, login, logout }}>
       {children}
     </AuthContext.Provider>
   );
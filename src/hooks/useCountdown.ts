@@ -0,0 +1,27 @@
+// src/hooks/useCountdown.ts
+import { useEffect, useState } from "react";
+
+/** Seconds remaining until `target`, ticking every second. Null when there is no target. */
+export const useCountdown = (target: string | Date | null) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!target) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [target]);
+
+  if (!target) return null;
+  return Math.max(0, Math.ceil((new Date(target).getTime() - now) / 1000));
+};
+
+export const formatCountdown = (seconds: number) => {
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+  if (d > 0) return `${d}d ${h}:${mmss}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
@@ -0,0 +1,85 @@
+// src/hooks/useSeatMapChannel.ts
+import { useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type SeatRow = Tables<"seats">;
+
+interface SeatMapHandlers {
+  onSeatChange: (payload: RealtimePostgresChangesPayload<SeatRow>) => void;
+  onHoldChange?: () => void;
+  onBookingChange?: () => void;
+}
+
+const FLASH_MS = 1600;
+
+/**
+ * Subscribes to live changes of a show's seats, holds and bookings.
+ * Returns the ids of seats that became booked in the last moment, for animating.
+ */
+export const useSeatMapChannel = (
+  show: { id: string; seat_layout_id: string } | null,
+  handlers: SeatMapHandlers
+) => {
+  const [justBooked, setJustBooked] = useState<string[]>([]);
+
+  // Keep the latest handlers without resubscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const showId = show?.id;
+  const layoutId = show?.seat_layout_id;
+
+  useEffect(() => {
+    if (!showId || !layoutId) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const flash = (seatId: string) => {
+      setJustBooked((prev) => [...prev, seatId]);
+      timers.push(
+        setTimeout(
+          () => setJustBooked((prev) => prev.filter((id) => id !== seatId)),
+          FLASH_MS
+        )
+      );
+    };
+
+    const channel = supabase
+      .channel(`seat-map:${showId}`)
+      .on<SeatRow>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seats", filter: `seat_layout_id=eq.${layoutId}` },
+        (payload) => {
+          if (
+            payload.eventType === "UPDATE" &&
+            payload.new.is_booked &&
+            !payload.old.is_booked
+          ) {
+            flash(payload.new.id);
+          }
+          handlersRef.current.onSeatChange(payload);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seat_holds", filter: `show_id=eq.${showId}` },
+        () => handlersRef.current.onHoldChange?.()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "bookings", filter: `show_id=eq.${showId}` },
+        () => handlersRef.current.onBookingChange?.()
+      )
+      .subscribe();
+
+    return () => {
+      timers.forEach(clearTimeout);
+      setJustBooked([]);
+      supabase.removeChannel(channel);
+    };
+  }, [showId, layoutId]);
+
+  return justBooked;
+};
@@ -15,45 +15,126 @@ export type Database = {
     Tables: {
       allowed_users: {
         Row: {
+          accessible_seating_requested: boolean
           created_at: string
           email: string
           id: string
-          uti: string
+          needs_accessible_seating: boolean
+          tier_id: string | null
+          uti_hash: string
         }
         Insert: {
+          accessible_seating_requested?: boolean
           created_at?: string
           email: string
           id?: string
-          uti: string
+          needs_accessible_seating?: boolean
+          tier_id?: string | null
+          uti_hash: string
         }
         Update: {
+          accessible_seating_requested?: boolean
           created_at?: string
           email?: string
           id?: string
-          uti?: string
+          needs_accessible_seating?: boolean
+          tier_id?: string | null
+          uti_hash?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "allowed_users_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "priority_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_groups: {
+        Row: {
+          created_at: string
+          id: string
+          leader_id: string
+          show_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          leader_id: string
+          show_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          leader_id?: string
+          show_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_groups_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       bookings: {
         Row: {
+          change_count: number
+          checked_in_at: string | null
+          checked_in_by: string | null
+          companion_for: string | null
           created_at: string
+          group_id: string | null
+          group_status: Database["public"]["Enums"]["group_member_status"] | null
           id: string
           seat_id: string
+          show_id: string
           user_id: string
         }
         Insert: {
+          change_count?: number
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          companion_for?: string | null
           created_at?: string
+          group_id?: string | null
+          group_status?: Database["public"]["Enums"]["group_member_status"] | null
           id?: string
           seat_id: string
+          show_id: string
           user_id: string
         }
         Update: {
+          change_count?: number
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          companion_for?: string | null
           created_at?: string
+          group_id?: string | null
+          group_status?: Database["public"]["Enums"]["group_member_status"] | null
           id?: string
           seat_id?: string
+          show_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_companion_for_fkey"
+            columns: ["companion_for"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "booking_groups"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_seat_id_fkey"
             columns: ["seat_id"]
@@ -61,11 +142,218 @@ export type Database = {
             referencedRelation: "seats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      login_attempts: {
+        Row: {
+          failures: number
+          id: string
+          identifier: string
+          kind: string
+          last_failed_at: string
+          last_ip: string | null
+          locked_until: string | null
+        }
+        Insert: {
+          failures?: number
+          id?: string
+          identifier: string
+          kind: string
+          last_failed_at?: string
+          last_ip?: string | null
+          locked_until?: string | null
+        }
+        Update: {
+          failures?: number
+          id?: string
+          identifier?: string
+          kind?: string
+          last_failed_at?: string
+          last_ip?: string | null
+          locked_until?: string | null
+        }
+        Relationships: []
+      }
+      lottery_applications: {
+        Row: {
+          id: string
+          show_id: string
+          submitted_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          show_id: string
+          submitted_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          show_id?: string
+          submitted_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lottery_applications_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lottery_preferences: {
+        Row: {
+          application_id: string
+          id: string
+          rank: number
+          seat_id: string | null
+          section_index: number | null
+        }
+        Insert: {
+          application_id: string
+          id?: string
+          rank: number
+          seat_id?: string | null
+          section_index?: number | null
+        }
+        Update: {
+          application_id?: string
+          id?: string
+          rank?: number
+          seat_id?: string | null
+          section_index?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lottery_preferences_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "lottery_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lottery_preferences_seat_id_fkey"
+            columns: ["seat_id"]
+            isOneToOne: false
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lottery_results: {
+        Row: {
+          allocated_rank: number | null
+          application_id: string
+          created_at: string
+          draw_position: number
+          seat_id: string | null
+          weight: number
+        }
+        Insert: {
+          allocated_rank?: number | null
+          application_id: string
+          created_at?: string
+          draw_position: number
+          seat_id?: string | null
+          weight: number
+        }
+        Update: {
+          allocated_rank?: number | null
+          application_id?: string
+          created_at?: string
+          draw_position?: number
+          seat_id?: string | null
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lottery_results_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "lottery_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lottery_results_seat_id_fkey"
+            columns: ["seat_id"]
+            isOneToOne: false
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      no_shows: {
+        Row: {
+          email: string
+          id: string
+          released_at: string
+          seat_label: string
+          show_id: string
+          user_id: string | null
+        }
+        Insert: {
+          email: string
+          id?: string
+          released_at?: string
+          seat_label: string
+          show_id: string
+          user_id?: string | null
+        }
+        Update: {
+          email?: string
+          id?: string
+          released_at?: string
+          seat_label?: string
+          show_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "no_shows_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      priority_tiers: {
+        Row: {
+          created_at: string
+          early_access_minutes: number
+          id: string
+          lottery_weight: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          early_access_minutes?: number
+          id?: string
+          lottery_weight?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          early_access_minutes?: number
+          id?: string
+          lottery_weight?: number
+          name?: string
+        }
+        Relationships: []
+      }
       seat_layout: {
         Row: {
           created_at: string
+          definition: Json
           id: string
           name: string
           total_columns: number
@@ -74,6 +362,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          definition?: Json
           id?: string
           name?: string
           total_columns?: number
@@ -82,6 +371,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          definition?: Json
           id?: string
           name?: string
           total_columns?: number
@@ -90,30 +380,216 @@ export type Database = {
         }
         Relationships: []
       }
+      seat_holds: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          seat_id: string
+          show_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          seat_id: string
+          show_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          seat_id?: string
+          show_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seat_holds_seat_id_fkey"
+            columns: ["seat_id"]
+            isOneToOne: true
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_holds_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seat_swaps: {
+        Row: {
+          created_at: string
+          from_booking_id: string
+          from_seat_id: string
+          from_user_id: string
+          id: string
+          responded_at: string | null
+          show_id: string
+          status: Database["public"]["Enums"]["seat_swap_status"]
+          to_booking_id: string
+          to_seat_id: string
+          to_user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_booking_id: string
+          from_seat_id: string
+          from_user_id: string
+          id?: string
+          responded_at?: string | null
+          show_id: string
+          status?: Database["public"]["Enums"]["seat_swap_status"]
+          to_booking_id: string
+          to_seat_id: string
+          to_user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_booking_id?: string
+          from_seat_id?: string
+          from_user_id?: string
+          id?: string
+          responded_at?: string | null
+          show_id?: string
+          status?: Database["public"]["Enums"]["seat_swap_status"]
+          to_booking_id?: string
+          to_seat_id?: string
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seat_swaps_from_booking_id_fkey"
+            columns: ["from_booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_swaps_from_seat_id_fkey"
+            columns: ["from_seat_id"]
+            isOneToOne: false
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_swaps_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_swaps_to_booking_id_fkey"
+            columns: ["to_booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_swaps_to_seat_id_fkey"
+            columns: ["to_seat_id"]
+            isOneToOne: false
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seat_transfers: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          expires_at: string
+          from_email: string
+          from_user_id: string | null
+          id: string
+          responded_at: string | null
+          seat_label: string
+          show_id: string
+          status: Database["public"]["Enums"]["seat_transfer_status"]
+          to_email: string
+          to_user_id: string | null
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          expires_at: string
+          from_email: string
+          from_user_id?: string | null
+          id?: string
+          responded_at?: string | null
+          seat_label: string
+          show_id: string
+          status?: Database["public"]["Enums"]["seat_transfer_status"]
+          to_email: string
+          to_user_id?: string | null
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          expires_at?: string
+          from_email?: string
+          from_user_id?: string | null
+          id?: string
+          responded_at?: string | null
+          seat_label?: string
+          show_id?: string
+          status?: Database["public"]["Enums"]["seat_transfer_status"]
+          to_email?: string
+          to_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seat_transfers_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_transfers_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       seats: {
         Row: {
+          category: string | null
           col_num: number
           created_at: string
           id: string
           is_booked: boolean
           row_num: number
           seat_layout_id: string
+          status: Database["public"]["Enums"]["seat_status"]
         }
         Insert: {
+          category?: string | null
           col_num: number
           created_at?: string
           id?: string
           is_booked?: boolean
           row_num: number
           seat_layout_id: string
+          status?: Database["public"]["Enums"]["seat_status"]
         }
         Update: {
+          category?: string | null
           col_num?: number
           created_at?: string
           id?: string
           is_booked?: boolean
           row_num?: number
           seat_layout_id?: string
+          status?: Database["public"]["Enums"]["seat_status"]
         }
         Relationships: [
           {
@@ -125,6 +601,92 @@ export type Database = {
           },
         ]
       }
+      shows: {
+        Row: {
+          allocation_mode: Database["public"]["Enums"]["allocation_mode"]
+          booking_closes_at: string | null
+          booking_opens_at: string | null
+          booking_paused: boolean
+          change_cutoff_at: string | null
+          created_at: string
+          hold_minutes: number
+          id: string
+          lottery_ran_at: string | null
+          max_seat_changes: number
+          no_show_grace_minutes: number | null
+          no_show_release_to: Database["public"]["Enums"]["no_show_release_target"]
+          seat_layout_id: string
+          starts_at: string
+          title: string
+          transfer_accept_minutes: number
+          waitlist_claim_minutes: number
+        }
+        Insert: {
+          allocation_mode?: Database["public"]["Enums"]["allocation_mode"]
+          booking_closes_at?: string | null
+          booking_opens_at?: string | null
+          booking_paused?: boolean
+          change_cutoff_at?: string | null
+          created_at?: string
+          hold_minutes?: number
+          id?: string
+          lottery_ran_at?: string | null
+          max_seat_changes?: number
+          no_show_grace_minutes?: number | null
+          no_show_release_to?: Database["public"]["Enums"]["no_show_release_target"]
+          seat_layout_id: string
+          starts_at: string
+          title: string
+          transfer_accept_minutes?: number
+          waitlist_claim_minutes?: number
+        }
+        Update: {
+          allocation_mode?: Database["public"]["Enums"]["allocation_mode"]
+          booking_closes_at?: string | null
+          booking_opens_at?: string | null
+          booking_paused?: boolean
+          change_cutoff_at?: string | null
+          created_at?: string
+          hold_minutes?: number
+          id?: string
+          lottery_ran_at?: string | null
+          max_seat_changes?: number
+          no_show_grace_minutes?: number | null
+          no_show_release_to?: Database["public"]["Enums"]["no_show_release_target"]
+          seat_layout_id?: string
+          starts_at?: string
+          title?: string
+          transfer_accept_minutes?: number
+          waitlist_claim_minutes?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shows_seat_layout_id_fkey"
+            columns: ["seat_layout_id"]
+            isOneToOne: true
+            referencedRelation: "seat_layout"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_signing_key: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -143,15 +705,306 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_entries: {
+        Row: {
+          id: string
+          joined_at: string
+          offer_expires_at: string | null
+          offered_seat_id: string | null
+          show_id: string
+          status: Database["public"]["Enums"]["waitlist_status"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          joined_at?: string
+          offer_expires_at?: string | null
+          offered_seat_id?: string | null
+          show_id: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          joined_at?: string
+          offer_expires_at?: string | null
+          offered_seat_id?: string | null
+          show_id?: string
+          status?: Database["public"]["Enums"]["waitlist_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_offered_seat_id_fkey"
+            columns: ["offered_seat_id"]
+            isOneToOne: false
+            referencedRelation: "seats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_layout_change: {
+        Args: {
+          _definition: Json
+          _layout_id: string
+          _relocations?: Json
+          _rows: number
+        }
+        Returns: undefined
+      }
+      book_companion_seat: {
+        Args: { _booking_id: string; _seat_id: string }
+        Returns: Database["public"]["Enums"]["companion_booking_result"]
+      }
+      book_group: {
+        Args: { _assignments: Json; _show_id: string }
+        Returns: Database["public"]["Enums"]["group_booking_result"]
+      }
+      book_seat: {
+        Args: { _seat_id: string }
+        Returns: Database["public"]["Enums"]["booking_result"]
+      }
+      booking_changes_open: { Args: { _show_id: string }; Returns: boolean }
+      booking_state:
+        | {
+            Args: { _show_id: string }
+            Returns: Database["public"]["Enums"]["booking_state"]
+          }
+        | {
+            Args: { _show_id: string; _user_id: string }
+            Returns: Database["public"]["Enums"]["booking_state"]
+          }
+      can_check_in: { Args: { _user_id: string }; Returns: boolean }
+      cancel_seat_swap: {
+        Args: { _swap_id: string }
+        Returns: Database["public"]["Enums"]["seat_swap_result"]
+      }
+      cancel_seat_transfer: {
+        Args: { _transfer_id: string }
+        Returns: Database["public"]["Enums"]["seat_transfer_result"]
+      }
+      change_booking_seat: {
+        Args: { _booking_id: string; _seat_id: string }
+        Returns: Database["public"]["Enums"]["booking_change_result"]
+      }
+      check_booking_window: {
+        Args: { _show_id: string; _user_id: string }
+        Returns: Database["public"]["Enums"]["booking_result"]
+      }
+      check_in_booking: {
+        Args: { _booking_id: string; _show_id: string }
+        Returns: {
+          booking_id: string
+          checked_in_at: string
+          email: string
+          result: Database["public"]["Enums"]["check_in_result"]
+          seat_label: string
+        }[]
+      }
+      check_in_ticket: {
+        Args: { _code: string; _show_id: string }
+        Returns: {
+          booking_id: string
+          checked_in_at: string
+          email: string
+          result: Database["public"]["Enums"]["check_in_result"]
+          seat_label: string
+        }[]
+      }
+      check_seat_bookable: {
+        Args: {
+          _seat: Database["public"]["Tables"]["seats"]["Row"]
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["booking_result"]
+      }
+      clear_login_failures: { Args: { _email: string }; Returns: undefined }
+      create_allowed_user: {
+        Args: { _email: string; _uti: string }
+        Returns: string
+      }
+      exchange_booking_seats: {
+        Args: { _first_id: string; _second_id: string }
+        Returns: undefined
+      }
+      expire_seat_transfers: { Args: never; Returns: undefined }
       generate_seats_for_layout: {
         Args: { _layout_id: string }
         Returns: undefined
       }
+      get_all_bookings_with_email: {
+        Args: { _show_id: string }
+        Returns: {
+          checked_in_at: string
+          col_num: number
+          companion_for: string
+          email: string
+          id: string
+          row_num: number
+          seat_id: string
+          show_id: string
+          user_id: string
+        }[]
+      }
+      get_all_users_with_roles: {
+        Args: never
+        Returns: {
+          accessible_seating_requested: boolean
+          email: string
+          id: string
+          needs_accessible_seating: boolean
+          role: Database["public"]["Enums"]["app_role"]
+          tier_id: string
+        }[]
+      }
+      get_colleagues: {
+        Args: { _show_id: string }
+        Returns: {
+          email: string
+          has_booking: boolean
+          user_id: string
+        }[]
+      }
+      get_early_access_minutes: { Args: { _user_id: string }; Returns: number }
+      get_free_seats_ranked: {
+        Args: { _section_index?: number; _show_id: string; _user_id?: string }
+        Returns: {
+          category: string | null
+          col_num: number
+          created_at: string
+          id: string
+          is_booked: boolean
+          row_num: number
+          seat_layout_id: string
+          status: Database["public"]["Enums"]["seat_status"]
+        }[]
+      }
+      get_group_members: {
+        Args: { _group_id: string }
+        Returns: {
+          booking_id: string
+          col_num: number
+          email: string
+          group_status: Database["public"]["Enums"]["group_member_status"]
+          row_num: number
+        }[]
+      }
+      get_login_lock: {
+        Args: { _email: string; _ip: string }
+        Returns: string
+      }
+      get_lottery_report: {
+        Args: { _show_id: string }
+        Returns: {
+          allocated_rank: number
+          col_num: number
+          draw_position: number
+          email: string
+          preference_count: number
+          row_num: number
+          weight: number
+        }[]
+      }
+      get_my_accessible_seating: { Args: never; Returns: boolean }
+      get_my_accessible_seating_request: { Args: never; Returns: boolean }
+      get_my_seat_swaps: {
+        Args: { _show_id: string }
+        Returns: {
+          created_at: string
+          from_email: string
+          from_seat_label: string
+          id: string
+          is_incoming: boolean
+          to_seat_label: string
+        }[]
+      }
+      get_my_seat_transfers: {
+        Args: { _show_id: string }
+        Returns: {
+          expires_at: string
+          from_email: string
+          id: string
+          is_incoming: boolean
+          seat_label: string
+          to_email: string
+        }[]
+      }
+      get_my_tickets: {
+        Args: { _show_id: string }
+        Returns: {
+          booking_id: string
+          code: string
+          email: string
+          is_companion: boolean
+          seat_label: string
+          show_title: string
+          starts_at: string
+        }[]
+      }
+      get_my_tier: {
+        Args: never
+        Returns: {
+          early_access_minutes: number
+          id: string
+          name: string
+        }[]
+      }
+      get_my_waitlist_entry: {
+        Args: { _show_id: string }
+        Returns: {
+          col_num: number
+          offer_expires_at: string
+          offered_seat_id: string
+          queue_position: number
+          row_num: number
+          status: Database["public"]["Enums"]["waitlist_status"]
+        }[]
+      }
+      get_no_show_report: {
+        Args: never
+        Returns: {
+          email: string
+          id: string
+          released_at: string
+          seat_label: string
+          show_id: string
+          show_title: string
+          user_id: string | null
+        }[]
+      }
+      get_seat_transfer_log: {
+        Args: { _show_id: string }
+        Returns: {
+          created_at: string
+          from_email: string
+          id: string
+          responded_at: string
+          seat_label: string
+          status: Database["public"]["Enums"]["seat_transfer_status"]
+          to_email: string
+        }[]
+      }
+      get_show_for_seat: { Args: { _seat_id: string }; Returns: string }
+      get_tier_booking_stats: {
+        Args: { _show_id: string }
+        Returns: {
+          booked: number
+          tier_id: string
+          users: number
+        }[]
+      }
       get_user_email_by_id: {
         Args: { _user_id: string }
         Returns: {
@@ -162,7 +1015,6 @@ export type Database = {
         Args: { _email: string }
         Returns: string
       }
-      get_uti_for_email: { Args: { _email: string }; Returns: string }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -170,12 +1022,231 @@ export type Database = {
         }
         Returns: boolean
       }
+      hold_seat: { Args: { _seat_id: string }; Returns: string }
       is_allowed_email: { Args: { _email: string }; Returns: boolean }
+      join_waitlist: {
+        Args: { _show_id: string }
+        Returns: Database["public"]["Enums"]["waitlist_result"]
+      }
+      layout_has_seat: {
+        Args: { _col: number; _definition: Json; _row: number; _rows: number }
+        Returns: boolean
+      }
+      layout_section_index: {
+        Args: { _col: number; _definition: Json }
+        Returns: number
+      }
+      leave_waitlist: { Args: { _show_id: string }; Returns: undefined }
+      offer_seat_to_waitlist: { Args: { _seat_id: string }; Returns: undefined }
+      offer_seat_transfer: {
+        Args: { _booking_id: string; _email: string }
+        Returns: Database["public"]["Enums"]["seat_transfer_result"]
+      }
+      process_waitlist_offers: { Args: never; Returns: undefined }
+      record_login_failure: {
+        Args: { _email: string; _ip: string }
+        Returns: string
+      }
+      release_booking: {
+        Args: { _booking_id: string }
+        Returns: Database["public"]["Enums"]["booking_change_result"]
+      }
+      release_no_shows: { Args: never; Returns: number }
+      release_seat_hold: { Args: { _seat_id: string }; Returns: undefined }
+      request_accessible_seating: {
+        Args: { _requested: boolean }
+        Returns: undefined
+      }
+      request_seat_swap: {
+        Args: { _booking_id: string; _seat_id: string }
+        Returns: Database["public"]["Enums"]["seat_swap_result"]
+      }
+      respond_to_group_booking: {
+        Args: { _accept: boolean; _booking_id: string }
+        Returns: Database["public"]["Enums"]["booking_change_result"]
+      }
+      respond_to_seat_swap: {
+        Args: { _accept: boolean; _swap_id: string }
+        Returns: Database["public"]["Enums"]["seat_swap_result"]
+      }
+      respond_to_seat_transfer: {
+        Args: { _accept: boolean; _transfer_id: string }
+        Returns: Database["public"]["Enums"]["seat_transfer_result"]
+      }
+      run_lottery_allocation: { Args: { _show_id: string }; Returns: number }
+      search_show_bookings: {
+        Args: { _query: string; _show_id: string }
+        Returns: {
+          booking_id: string
+          checked_in_at: string
+          email: string
+          group_status: Database["public"]["Enums"]["group_member_status"]
+          is_companion: boolean
+          seat_label: string
+        }[]
+      }
       seat_is_available: { Args: { _seat_id: string }; Returns: boolean }
+      seat_label: { Args: { _col: number; _row: number }; Returns: string }
+      seat_status_is_accessible: {
+        Args: { _status: Database["public"]["Enums"]["seat_status"] }
+        Returns: boolean
+      }
+      seat_status_is_bookable: {
+        Args: { _status: Database["public"]["Enums"]["seat_status"] }
+        Returns: boolean
+      }
+      seat_status_is_bookable_by: {
+        Args: {
+          _status: Database["public"]["Enums"]["seat_status"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      seat_walk_in: {
+        Args: { _email: string; _seat_id: string }
+        Returns: Database["public"]["Enums"]["walk_in_result"]
+      }
+      set_user_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      sign_ticket: { Args: { _payload: string }; Returns: string }
+      submit_lottery_application: {
+        Args: { _preferences: Json; _show_id: string }
+        Returns: Database["public"]["Enums"]["lottery_application_result"]
+      }
+      swap_bookings: {
+        Args: { _first_booking_id: string; _second_booking_id: string }
+        Returns: Database["public"]["Enums"]["seat_swap_result"]
+      }
+      ticket_payload: { Args: { _booking_id: string }; Returns: string }
+      unlock_login: { Args: { _email: string }; Returns: undefined }
       user_has_booking: { Args: { _user_id: string }; Returns: boolean }
+      user_has_booking_for_show: {
+        Args: { _show_id: string; _user_id: string }
+        Returns: boolean
+      }
+      user_needs_accessible_seating: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      verify_uti: { Args: { _email: string; _uti: string }; Returns: boolean }
+      withdraw_lottery_application: {
+        Args: { _show_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      allocation_mode: "first_come" | "lottery"
+      app_role: "admin" | "user" | "usher"
+      booking_change_result:
+        | "ok"
+        | "seat_taken"
+        | "seat_blocked"
+        | "changes_closed"
+        | "change_limit_reached"
+        | "not_found"
+        | "accessible_seat"
+      booking_result:
+        | "ok"
+        | "seat_taken"
+        | "already_booked"
+        | "booking_closed"
+        | "seat_blocked"
+        | "booking_not_open"
+        | "booking_paused"
+        | "lottery_only"
+        | "accessible_seat"
+      booking_state: "not_open" | "open" | "paused" | "closed"
+      check_in_result:
+        | "ok"
+        | "already_checked_in"
+        | "invalid_signature"
+        | "wrong_show"
+        | "outdated_ticket"
+        | "not_accepted"
+        | "not_found"
+      companion_booking_result:
+        | "ok"
+        | "seat_taken"
+        | "seat_blocked"
+        | "not_adjacent"
+        | "not_eligible"
+        | "already_booked"
+        | "changes_closed"
+        | "not_found"
+      group_booking_result:
+        | "ok"
+        | "seat_taken"
+        | "seat_blocked"
+        | "booking_closed"
+        | "already_booked"
+        | "not_adjacent"
+        | "invalid_group"
+        | "booking_not_open"
+        | "booking_paused"
+        | "lottery_only"
+        | "accessible_seat"
+      group_member_status: "pending" | "accepted"
+      lottery_application_result:
+        | "ok"
+        | "not_lottery"
+        | "window_closed"
+        | "already_booked"
+        | "invalid_preferences"
+      no_show_release_target: "waitlist" | "walk_ins"
+      seat_status:
+        | "available"
+        | "blocked"
+        | "vip_reserved"
+        | "wheelchair"
+        | "restricted_view"
+        | "easy_access"
+      seat_swap_result:
+        | "ok"
+        | "not_found"
+        | "own_seat"
+        | "seat_not_booked"
+        | "changes_closed"
+        | "has_companion"
+        | "not_eligible"
+        | "already_requested"
+        | "seats_changed"
+        | "different_show"
+      seat_swap_status: "pending" | "accepted" | "declined" | "cancelled"
+      seat_transfer_result:
+        | "ok"
+        | "not_found"
+        | "transfer_closed"
+        | "unknown_user"
+        | "self_transfer"
+        | "already_booked"
+        | "already_offered"
+        | "has_companion"
+        | "not_eligible"
+        | "expired"
+      seat_transfer_status:
+        | "pending"
+        | "accepted"
+        | "declined"
+        | "cancelled"
+        | "expired"
+      waitlist_result:
+        | "ok"
+        | "seats_available"
+        | "already_booked"
+        | "already_waiting"
+        | "booking_closed"
+      waitlist_status: "waiting" | "offered" | "claimed" | "expired"
+      walk_in_result:
+        | "ok"
+        | "seat_taken"
+        | "seat_blocked"
+        | "unknown_user"
+        | "already_booked"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -303,7 +1374,125 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      allocation_mode: ["first_come", "lottery"],
+      app_role: ["admin", "user", "usher"],
+      booking_change_result: [
+        "ok",
+        "seat_taken",
+        "seat_blocked",
+        "changes_closed",
+        "change_limit_reached",
+        "not_found",
+        "accessible_seat",
+      ],
+      booking_result: [
+        "ok",
+        "seat_taken",
+        "already_booked",
+        "booking_closed",
+        "seat_blocked",
+        "booking_not_open",
+        "booking_paused",
+        "lottery_only",
+        "accessible_seat",
+      ],
+      booking_state: ["not_open", "open", "paused", "closed"],
+      check_in_result: [
+        "ok",
+        "already_checked_in",
+        "invalid_signature",
+        "wrong_show",
+        "outdated_ticket",
+        "not_accepted",
+        "not_found",
+      ],
+      companion_booking_result: [
+        "ok",
+        "seat_taken",
+        "seat_blocked",
+        "not_adjacent",
+        "not_eligible",
+        "already_booked",
+        "changes_closed",
+        "not_found",
+      ],
+      group_booking_result: [
+        "ok",
+        "seat_taken",
+        "seat_blocked",
+        "booking_closed",
+        "already_booked",
+        "not_adjacent",
+        "invalid_group",
+        "booking_not_open",
+        "booking_paused",
+        "lottery_only",
+        "accessible_seat",
+      ],
+      group_member_status: ["pending", "accepted"],
+      lottery_application_result: [
+        "ok",
+        "not_lottery",
+        "window_closed",
+        "already_booked",
+        "invalid_preferences",
+      ],
+      no_show_release_target: ["waitlist", "walk_ins"],
+      seat_status: [
+        "available",
+        "blocked",
+        "vip_reserved",
+        "wheelchair",
+        "restricted_view",
+        "easy_access",
+      ],
+      seat_swap_result: [
+        "ok",
+        "not_found",
+        "own_seat",
+        "seat_not_booked",
+        "changes_closed",
+        "has_companion",
+        "not_eligible",
+        "already_requested",
+        "seats_changed",
+        "different_show",
+      ],
+      seat_swap_status: ["pending", "accepted", "declined", "cancelled"],
+      seat_transfer_result: [
+        "ok",
+        "not_found",
+        "transfer_closed",
+        "unknown_user",
+        "self_transfer",
+        "already_booked",
+        "already_offered",
+        "has_companion",
+        "not_eligible",
+        "expired",
+      ],
+      seat_transfer_status: [
+        "pending",
+        "accepted",
+        "declined",
+        "cancelled",
+        "expired",
+      ],
+      waitlist_result: [
+        "ok",
+        "seats_available",
+        "already_booked",
+        "already_waiting",
+        "booking_closed",
+      ],
+      waitlist_status: ["waiting", "offered", "claimed", "expired"],
+      walk_in_result: [
+        "ok",
+        "seat_taken",
+        "seat_blocked",
+        "unknown_user",
+        "already_booked",
+      ],
     },
   },
 } as const
\ No newline at end of file
@@ -0,0 +1,34 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type BookingState = Enums<"booking_state">;
+
+export interface BookingWindow {
+  starts_at: string;
+  booking_opens_at: string | null;
+  booking_closes_at: string | null;
+  booking_paused: boolean;
+  lottery_ran_at: string | null;
+}
+
+/** When booking opens for a user whose priority tier gets `earlyAccessMinutes` head start. */
+export const getBookingOpensAt = (show: BookingWindow, earlyAccessMinutes = 0) =>
+  show.booking_opens_at
+    ? new Date(new Date(show.booking_opens_at).getTime() - earlyAccessMinutes * 60000)
+    : null;
+
+/** Mirrors booking_state in the database. */
+export const getBookingState = (
+  show: BookingWindow,
+  earlyAccessMinutes = 0,
+  now = new Date()
+): BookingState => {
+  const opensAt = getBookingOpensAt(show, earlyAccessMinutes);
+
+  // After a lottery draw, leftover seats can be booked until the show starts
+  const closesAt = show.lottery_ran_at ? show.starts_at : show.booking_closes_at ?? show.starts_at;
+
+  if (now >= new Date(closesAt)) return "closed";
+  if (opensAt && now < opensAt) return "not_open";
+  if (show.booking_paused) return "paused";
+  return "open";
+};
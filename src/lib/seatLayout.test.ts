@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { LayoutDefinition, getSeatInDirection } from "@/lib/seatLayout";
+
+// Two blocks of two seats with an aisle between columns 2 and 3
+const layout = (patch: Partial<LayoutDefinition> = {}): LayoutDefinition => ({
+  sections: [
+    { name: "A", columns: 2 },
+    { name: "B", columns: 2 },
+  ],
+  aisleAfterRows: [],
+  rowOverrides: {},
+  gaps: [],
+  ...patch,
+});
+
+describe("getSeatInDirection", () => {
+  it("steps across the aisle into the next block", () => {
+    expect(getSeatInDirection(layout(), 3, { row: 1, col: 2 }, "right")).toEqual({ row: 1, col: 3 });
+    expect(getSeatInDirection(layout(), 3, { row: 1, col: 3 }, "left")).toEqual({ row: 1, col: 2 });
+  });
+
+  it("steps over a gap in the row", () => {
+    const def = layout({ gaps: [{ row: 1, col: 3 }] });
+    expect(getSeatInDirection(def, 3, { row: 1, col: 2 }, "right")).toEqual({ row: 1, col: 4 });
+  });
+
+  it("skips rows without seats", () => {
+    const def = layout({ rowOverrides: { 2: { seats: [0, 0] } } });
+    expect(getSeatInDirection(def, 3, { row: 1, col: 2 }, "down")).toEqual({ row: 3, col: 2 });
+    expect(getSeatInDirection(def, 3, { row: 3, col: 3 }, "up")).toEqual({ row: 1, col: 3 });
+  });
+
+  it("lands on the nearest column of a shorter row", () => {
+    const def = layout({ rowOverrides: { 2: { seats: [2, 0] } } });
+    expect(getSeatInDirection(def, 2, { row: 1, col: 4 }, "down")).toEqual({ row: 2, col: 2 });
+  });
+
+  it("returns null at the edge of the hall", () => {
+    expect(getSeatInDirection(layout(), 3, { row: 1, col: 4 }, "right")).toBeNull();
+    expect(getSeatInDirection(layout(), 3, { row: 1, col: 1 }, "up")).toBeNull();
+    expect(getSeatInDirection(layout(), 3, { row: 3, col: 1 }, "down")).toBeNull();
+  });
+});
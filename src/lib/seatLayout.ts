@@ -0,0 +1,193 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Shape of seat_layout.definition. Columns are numbered 1..N across all
+// sections left to right; an aisle runs between consecutive sections.
+
+export interface LayoutSection {
+  name: string;
+  columns: number;
+}
+
+export interface LayoutRowOverride {
+  /** Seats per section for this row, centred within the section width */
+  seats?: number[];
+  /** Horizontal shift in half-seat steps */
+  offset?: number;
+}
+
+export interface LayoutGap {
+  row: number;
+  col: number;
+}
+
+export interface LayoutDefinition {
+  sections: LayoutSection[];
+  /** Cross aisles are drawn after these row numbers */
+  aisleAfterRows: number[];
+  rowOverrides: Record<string, LayoutRowOverride>;
+  /** Positions without a seat, e.g. pillars */
+  gaps: LayoutGap[];
+}
+
+export interface SectionSpan extends LayoutSection {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export type CellKind = "seat" | "gap" | "empty";
+
+export const DEFAULT_LAYOUT: LayoutDefinition = {
+  sections: [
+    { name: "A", columns: 4 },
+    { name: "B", columns: 8 },
+    { name: "C", columns: 4 },
+  ],
+  aisleAfterRows: [],
+  rowOverrides: {},
+  gaps: [],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/** Reads a definition from the database, falling back to the 4-8-4 default for missing parts. */
+export const parseLayoutDefinition = (json: Json | null | undefined): LayoutDefinition => {
+  if (!isObject(json)) return DEFAULT_LAYOUT;
+
+  const sections = Array.isArray(json.sections)
+    ? (json.sections as unknown[]).filter(isObject).map((s, i) => ({
+        name: typeof s.name === "string" ? s.name : String.fromCharCode(65 + i),
+        columns: Math.max(0, Number(s.columns) || 0),
+      }))
+    : DEFAULT_LAYOUT.sections;
+
+  return {
+    sections,
+    aisleAfterRows: Array.isArray(json.aisleAfterRows) ? json.aisleAfterRows.map(Number) : [],
+    rowOverrides: isObject(json.rowOverrides)
+      ? (json.rowOverrides as unknown as Record<string, LayoutRowOverride>)
+      : {},
+    gaps: Array.isArray(json.gaps)
+      ? (json.gaps as unknown[]).filter(isObject).map((g) => ({ row: Number(g.row), col: Number(g.col) }))
+      : [],
+  };
+};
+
+/** Column letter as printed on tickets, matching seat_label() in the database. */
+export const getColumnLabel = (col: number) => String.fromCharCode(64 + col);
+
+/** e.g. "C7" for row 7, column 3 */
+export const getSeatLabel = (row: number, col: number) => `${getColumnLabel(col)}${row}`;
+
+export const getTotalColumns = (def: LayoutDefinition) =>
+  def.sections.reduce((sum, s) => sum + s.columns, 0);
+
+export const getSectionSpans = (def: LayoutDefinition): SectionSpan[] => {
+  let start = 1;
+  return def.sections.map((section, index) => {
+    const span = { ...section, index, start, end: start + section.columns - 1 };
+    start += section.columns;
+    return span;
+  });
+};
+
+export const getSectionForColumn = (def: LayoutDefinition, col: number) =>
+  getSectionSpans(def).find((s) => col >= s.start && col <= s.end) ?? null;
+
+export const getRowSeatCount = (def: LayoutDefinition, row: number, sectionIndex: number) => {
+  const width = def.sections[sectionIndex]?.columns ?? 0;
+  const count = def.rowOverrides[row]?.seats?.[sectionIndex];
+  return count == null ? width : Math.min(Math.max(count, 0), width);
+};
+
+export const getRowOffset = (def: LayoutDefinition, row: number) =>
+  def.rowOverrides[row]?.offset ?? 0;
+
+export const isGap = (def: LayoutDefinition, row: number, col: number) =>
+  def.gaps.some((g) => g.row === row && g.col === col);
+
+/** Whether a grid position holds a seat, a gap (pillar), or nothing because the row is shorter. */
+export const getCellKind = (def: LayoutDefinition, row: number, col: number): CellKind => {
+  const section = getSectionForColumn(def, col);
+  if (!section) return "empty";
+
+  const count = getRowSeatCount(def, row, section.index);
+  const pad = Math.floor((section.columns - count) / 2);
+  const index = col - section.start;
+  if (index < pad || index >= pad + count) return "empty";
+
+  return isGap(def, row, col) ? "gap" : "seat";
+};
+
+/** Mirrors layout_has_seat in the database. */
+export const hasSeatAt = (def: LayoutDefinition, rows: number, row: number, col: number) =>
+  row >= 1 && row <= rows && getCellKind(def, row, col) === "seat";
+
+export const getSeatPositions = (def: LayoutDefinition, rows: number) => {
+  const positions: { row: number; col: number }[] = [];
+  const cols = getTotalColumns(def);
+  for (let row = 1; row <= rows; row++) {
+    for (let col = 1; col <= cols; col++) {
+      if (getCellKind(def, row, col) === "seat") positions.push({ row, col });
+    }
+  }
+  return positions;
+};
+
+/** Seats in one row, consecutive columns, within a single section (no aisle in between). */
+export const isContiguousRun = (def: LayoutDefinition, cells: { row: number; col: number }[]) => {
+  if (cells.length === 0) return false;
+
+  const cols = cells.map((c) => c.col).sort((a, b) => a - b);
+  const section = getSectionForColumn(def, cols[0]);
+
+  return (
+    cells.every((c) => c.row === cells[0].row) &&
+    cols.every((col, i) => i === 0 || col === cols[i - 1] + 1) &&
+    !!section &&
+    cols[cols.length - 1] <= section.end
+  );
+};
+
+export type SeatMove = "left" | "right" | "up" | "down" | "rowStart" | "rowEnd" | "first" | "last";
+
+/**
+ * The seat reached from a position by a keyboard move. Left and right step over
+ * aisles into the next block; up and down skip rows without seats and land on
+ * the nearest column. Returns null at the edge of the hall.
+ */
+export const getSeatInDirection = (
+  def: LayoutDefinition,
+  rows: number,
+  from: { row: number; col: number },
+  move: SeatMove
+) => {
+  const positions = getSeatPositions(def, rows);
+  const inRow = positions.filter((p) => p.row === from.row);
+
+  switch (move) {
+    case "left":
+      return [...inRow].reverse().find((p) => p.col < from.col) ?? null;
+    case "right":
+      return inRow.find((p) => p.col > from.col) ?? null;
+    case "rowStart":
+      return inRow[0] ?? null;
+    case "rowEnd":
+      return inRow[inRow.length - 1] ?? null;
+    case "first":
+      return positions[0] ?? null;
+    case "last":
+      return positions[positions.length - 1] ?? null;
+  }
+
+  const step = move === "up" ? -1 : 1;
+  for (let row = from.row + step; row >= 1 && row <= rows; row += step) {
+    const candidates = positions.filter((p) => p.row === row);
+    if (candidates.length === 0) continue;
+    return candidates.reduce((best, p) =>
+      Math.abs(p.col - from.col) < Math.abs(best.col - from.col) ? p : best
+    );
+  }
+  return null;
+};
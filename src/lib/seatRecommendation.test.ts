@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { LayoutDefinition } from "@/lib/seatLayout";
+import { findBestRun } from "@/lib/seatRecommendation";
+
+// One row, two blocks of three seats with an aisle between columns 3 and 4
+const def: LayoutDefinition = {
+  sections: [
+    { name: "A", columns: 3 },
+    { name: "B", columns: 3 },
+  ],
+  aisleAfterRows: [],
+  rowOverrides: {},
+  gaps: [],
+};
+
+const row = (...cols: number[]) => cols.map((col) => ({ row: 1, col }));
+
+describe("findBestRun", () => {
+  it("does not pair seats on either side of an aisle", () => {
+    expect(findBestRun(def, 1, row(3, 4), 2)).toBeNull();
+  });
+
+  it("keeps a run inside one block", () => {
+    expect(findBestRun(def, 1, row(2, 3, 4), 2)).toEqual(row(2, 3));
+  });
+
+  it("finds no run longer than a block", () => {
+    expect(findBestRun(def, 1, row(1, 2, 3, 4, 5, 6), 4)).toBeNull();
+  });
+
+  it("needs every seat of the run to be free", () => {
+    expect(findBestRun(def, 1, row(1, 3, 4, 6), 2)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { LayoutDefinition, getSectionForColumn, getTotalColumns } from "@/lib/seatLayout";
+
+export interface SeatPosition {
+  row: number;
+  col: number;
+}
+
+// Share of the score for each criterion; lower scores are better
+const WEIGHTS = { centre: 0.5, row: 0.35, block: 0.15 };
+
+// Most people prefer sitting a little behind the middle of the hall
+const IDEAL_ROW_RATIO = 0.6;
+
+/** 0 for the best seat in the house, up to about 1 for the worst. */
+export const scoreSeat = (def: LayoutDefinition, rows: number, { row, col }: SeatPosition) => {
+  const halfWidth = Math.max(getTotalColumns(def) / 2, 1);
+  const centre = Math.abs(col - (getTotalColumns(def) + 1) / 2) / halfWidth;
+
+  const idealRow = Math.max(1, Math.round(rows * IDEAL_ROW_RATIO));
+  const rowDistance = Math.abs(row - idealRow) / Math.max(rows, 1);
+
+  // Blocks further from the middle one(s) are worse
+  const section = getSectionForColumn(def, col);
+  const middle = (def.sections.length - 1) / 2;
+  const block = section && middle > 0 ? Math.abs(section.index - middle) / middle : 0;
+
+  return WEIGHTS.centre * centre + WEIGHTS.row * rowDistance + WEIGHTS.block * block;
+};
+
+/** The best free seats, best first. */
+export const findBestSeats = (
+  def: LayoutDefinition,
+  rows: number,
+  free: SeatPosition[],
+  count = 3
+) =>
+  [...free]
+    .map((seat) => ({ seat, score: scoreSeat(def, rows, seat) }))
+    .sort((a, b) => a.score - b.score)
+    .slice(0, count)
+    .map(({ seat }) => seat);
+
+/**
+ * The best run of `size` free seats side by side in one row, never crossing
+ * an aisle between blocks. Null when no such run exists.
+ */
+export const findBestRun = (
+  def: LayoutDefinition,
+  rows: number,
+  free: SeatPosition[],
+  size: number
+): SeatPosition[] | null => {
+  const freeKeys = new Set(free.map((s) => `${s.row}:${s.col}`));
+  let best: SeatPosition[] | null = null;
+  let bestScore = Infinity;
+
+  for (const { row, col } of free) {
+    const section = getSectionForColumn(def, col);
+    if (!section || col + size - 1 > section.end) continue;
+
+    // Runs are identified by their leftmost seat
+    const run = Array.from({ length: size }, (_, i) => ({ row, col: col + i }));
+    if (!run.every((s) => freeKeys.has(`${s.row}:${s.col}`))) continue;
+
+    const score = run.reduce((sum, s) => sum + scoreSeat(def, rows, s), 0) / size;
+    if (score < bestScore) {
+      best = run;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,59 @@
+import type { Enums } from "@/integrations/supabase/types";
+import { Accessibility, Ban, Clock, EyeOff, Footprints, LucideIcon, Star, X } from "lucide-react";
+
+/** What a seat shows on the map: a live booking or hold wins over the status an admin set. */
+export type SeatStatus = "booked" | "held" | Enums<"seat_status">;
+
+export interface StatusSeat {
+  is_booked: boolean;
+  status: Enums<"seat_status">;
+}
+
+export const SEAT_STATUS_LABELS: Record<SeatStatus, string> = {
+  available: "Available",
+  booked: "Booked",
+  held: "On hold",
+  blocked: "Blocked",
+  vip_reserved: "VIP reserved",
+  wheelchair: "Wheelchair space",
+  easy_access: "Step-free access",
+  restricted_view: "Restricted view",
+};
+
+// Colours only; each map adds its own size and interaction classes
+export const SEAT_STATUS_CLASSES: Record<SeatStatus, string> = {
+  available: "bg-accent text-accent-foreground border-2 border-accent",
+  booked: "bg-destructive/30 text-destructive/60 border-2 border-destructive/20",
+  held: "bg-amber-300/60 text-amber-900/60 border-2 border-amber-300",
+  blocked: "bg-muted text-muted-foreground border-2 border-dashed border-muted-foreground/40 line-through",
+  vip_reserved: "bg-purple-200 text-purple-900 border-2 border-purple-400",
+  wheelchair: "bg-sky-200 text-sky-900 border-2 border-sky-400",
+  easy_access: "bg-teal-200 text-teal-900 border-2 border-teal-400",
+  restricted_view: "bg-accent text-accent-foreground border-2 border-dashed border-orange-400",
+};
+
+// Shape cue on top of the colour, so a state never depends on colour alone
+export const SEAT_STATUS_ICONS: Record<SeatStatus, LucideIcon | null> = {
+  available: null,
+  booked: X,
+  held: Clock,
+  blocked: Ban,
+  vip_reserved: Star,
+  wheelchair: Accessibility,
+  easy_access: Footprints,
+  restricted_view: EyeOff,
+};
+
+/** Mirrors seat_status_is_bookable in the database. */
+export const isBookableStatus = (status: Enums<"seat_status">) =>
+  status !== "blocked" && status !== "vip_reserved";
+
+export const isAccessibleStatus = (status: Enums<"seat_status">) =>
+  status === "wheelchair" || status === "easy_access";
+
+/** Mirrors seat_status_is_bookable_by: accessible seats are kept for users who asked for one. */
+export const isBookableStatusFor = (status: Enums<"seat_status">, needsAccessibleSeating: boolean) =>
+  isBookableStatus(status) && (!isAccessibleStatus(status) || needsAccessibleSeating);
+
+export const getSeatStatus = (seat: StatusSeat, heldByOther = false): SeatStatus =>
+  seat.is_booked ? "booked" : heldByOther ? "held" : seat.status;
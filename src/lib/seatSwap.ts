@@ -0,0 +1,44 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+/** Messages for every way a swap request, answer or admin swap can fail. */
+export const SWAP_FAILURES: Record<
+  Exclude<Enums<"seat_swap_result">, "ok">,
+  { title: string; description: string }
+> = {
+  not_found: {
+    title: "Not Found",
+    description: "The booking or swap request no longer exists. It may have just been answered.",
+  },
+  own_seat: {
+    title: "That's Your Seat",
+    description: "Pick a seat booked by someone else.",
+  },
+  seat_not_booked: {
+    title: "Seat Is Free",
+    description: "Nobody holds this seat any more, so you can move to it directly.",
+  },
+  changes_closed: {
+    title: "Changes Closed",
+    description: "Bookings for this show can no longer be changed.",
+  },
+  has_companion: {
+    title: "Companion Seat",
+    description: "Companion seats, and seats with a companion seat next to them, can't be swapped.",
+  },
+  not_eligible: {
+    title: "Accessible Seat",
+    description: "One of the seats is kept for guests who need accessible seating.",
+  },
+  already_requested: {
+    title: "Already Asked",
+    description: "You already have a swap request waiting. Withdraw it from your dashboard first.",
+  },
+  seats_changed: {
+    title: "Seats Have Changed",
+    description: "One of the seats has changed hands since the request was made.",
+  },
+  different_show: {
+    title: "Different Shows",
+    description: "Only seats for the same show can be swapped.",
+  },
+};
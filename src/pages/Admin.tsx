@@ -2,34 +2,128 @@ import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Enums, Json } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { useSeatMapChannel } from "@/hooks/useSeatMapChannel";
+import SeatGrid from "@/components/SeatGrid";
+import SeatLegend from "@/components/SeatLegend";
+import LayoutEditor from "@/components/LayoutEditor";
+import LayoutChangePreview, { Relocation } from "@/components/LayoutChangePreview";
+import { LayoutDefinition, getColumnLabel, getSeatLabel, parseLayoutDefinition } from "@/lib/seatLayout";
+import { BookingState, BookingWindow, getBookingState } from "@/lib/bookingWindow";
+import { SEAT_STATUS_CLASSES, SEAT_STATUS_ICONS, SEAT_STATUS_LABELS, getSeatStatus, isBookableStatus } from "@/lib/seatStatus";
+import { SWAP_FAILURES } from "@/lib/seatSwap";
+import { ArrowLeft, Dices, Download, Pause, Play, Plus, Square, Trash2, Unlock } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import * as XLSX from "xlsx";
+import { format } from "date-fns";
 
 interface UserWithRole {
   id: string;
   email: string;
-  role: "admin" | "user";
+  role: Enums<"app_role">;
+  tier_id: string | null;
+  needs_accessible_seating: boolean;
+  accessible_seating_requested: boolean;
 }
 
+interface PriorityTier {
+  id: string;
+  name: string;
+  early_access_minutes: number;
+  lottery_weight: number;
+}
+
+interface TierStats {
+  tier_id: string | null;
+  users: number;
+  booked: number;
+}
+
+interface LotteryReportRow {
+  email: string;
+  draw_position: number;
+  weight: number;
+  preference_count: number;
+  allocated_rank: number | null;
+  row_num: number | null;
+  col_num: number | null;
+}
+
+interface NoShow {
+  id: string;
+  user_id: string | null;
+  email: string;
+  show_id: string;
+  show_title: string;
+  seat_label: string;
+  released_at: string;
+}
+
+interface SeatTransferLogRow {
+  id: string;
+  from_email: string;
+  to_email: string;
+  seat_label: string;
+  status: Enums<"seat_transfer_status">;
+  created_at: string;
+  responded_at: string | null;
+}
+
+const TRANSFER_STATUS_LABELS: Record<Enums<"seat_transfer_status">, string> = {
+  pending: "Awaiting answer",
+  accepted: "Handed over",
+  declined: "Declined",
+  cancelled: "Withdrawn",
+  expired: "Expired",
+};
+
 interface Seat {
   id: string;
   row_num: number;
   col_num: number;
   is_booked: boolean;
+  status: Enums<"seat_status">;
+  category: string | null;
+}
+
+interface Show extends BookingWindow {
+  id: string;
+  title: string;
+  seat_layout_id: string;
+  change_cutoff_at: string | null;
+  max_seat_changes: number;
+  waitlist_claim_minutes: number;
+  transfer_accept_minutes: number;
+  allocation_mode: "first_come" | "lottery";
+  lottery_ran_at: string | null;
+  no_show_grace_minutes: number | null;
+  no_show_release_to: Enums<"no_show_release_target">;
 }
 
 interface SeatLayout {
   id: string;
   total_rows: number;
   total_columns: number;
+  definition: LayoutDefinition;
 }
 
 interface BookingInfo {
@@ -39,34 +133,103 @@ interface BookingInfo {
   seat_id: string;
   row_num: number;
   col_num: number;
+  companion_for: string | null;
+  checked_in_at: string | null;
 }
 
+const BOOKING_STATE_LABELS: Record<BookingState, string> = {
+  not_open: "Scheduled",
+  open: "Open",
+  paused: "Paused",
+  closed: "Closed",
+};
+
+// Edge functions reply with { error } on failure; invoke() only exposes a generic message
+const functionErrorMessage = async (error: { message: string; context?: Response }) => {
+  try {
+    const body = await error.context?.json();
+    return body?.error ?? error.message;
+  } catch {
+    return error.message;
+  }
+};
+
 const Admin = () => {
   const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const [users, setUsers] = useState<UserWithRole[]>([]);
+  const [tiers, setTiers] = useState<PriorityTier[]>([]);
+  const [tierStats, setTierStats] = useState<TierStats[]>([]);
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+  const [bulkTierId, setBulkTierId] = useState("none");
+  const [newTierName, setNewTierName] = useState("");
+  const [newTierMinutes, setNewTierMinutes] = useState("60");
+  // email -> locked until
+  const [lockedLogins, setLockedLogins] = useState<Record<string, string>>({});
+  const [noShows, setNoShows] = useState<NoShow[]>([]);
+  const [transferLog, setTransferLog] = useState<SeatTransferLogRow[]>([]);
+  const [shows, setShows] = useState<Show[]>([]);
+  const [selectedShowId, setSelectedShowId] = useState("");
   const [layout, setLayout] = useState<SeatLayout | null>(null);
   const [seats, setSeats] = useState<Seat[]>([]);
   const [bookings, setBookings] = useState<BookingInfo[]>([]);
+  // Clicking a seat on the map applies this status and category
+  const [seatStatusBrush, setSeatStatusBrush] = useState<Enums<"seat_status">>("blocked");
+  const [seatCategoryBrush, setSeatCategoryBrush] = useState("");
+  const [lotteryApplicants, setLotteryApplicants] = useState(0);
+  const [lotteryReport, setLotteryReport] = useState<LotteryReportRow[]>([]);
+  const [runningLottery, setRunningLottery] = useState(false);
 
   const [newEmail, setNewEmail] = useState("");
   const [newUti, setNewUti] = useState("");
-  const [newRole, setNewRole] = useState<"admin" | "user">("user");
-  const [newRows, setNewRows] = useState("");
+  const [newRole, setNewRole] = useState<Enums<"app_role">>("user");
+  const [pendingLayout, setPendingLayout] = useState<{ rows: number; definition: LayoutDefinition } | null>(null);
+  const [savingLayout, setSavingLayout] = useState(false);
+
+  const [newShowTitle, setNewShowTitle] = useState("");
+  const [newShowStartsAt, setNewShowStartsAt] = useState("");
+  const [newShowRows, setNewShowRows] = useState("20");
 
   const [editingBooking, setEditingBooking] = useState<BookingInfo | null>(null);
   const [newSeatId, setNewSeatId] = useState("");
+  const [swappingBooking, setSwappingBooking] = useState<BookingInfo | null>(null);
+  const [swapWithId, setSwapWithId] = useState("");
 
   useEffect(() => {
     if (!isAdmin) {
       navigate("/dashboard");
       return;
     }
-    fetchAll();
+    fetchUsers();
+    fetchShows();
+    fetchTiers();
   }, [isAdmin]);
 
+  useEffect(() => {
+    if (!selectedShowId) return;
+    fetchLayout();
+    fetchBookings();
+    fetchTierStats();
+    fetchLottery();
+    fetchNoShows();
+    fetchTransferLog();
+  }, [selectedShowId]);
+
+  const selectedShow = shows.find(s => s.id === selectedShowId) ?? null;
+
+  const justBooked = useSeatMapChannel(selectedShow, {
+    onSeatChange: (payload) => {
+      if (payload.eventType === "UPDATE") {
+        setSeats(prev => prev.map(s => (s.id === payload.new.id ? { ...s, ...payload.new } : s)));
+      } else {
+        fetchLayout();
+      }
+    },
+    onBookingChange: () => fetchBookings(),
+  });
+
   const fetchAll = async () => {
     await fetchUsers();
     await fetchLayout();
@@ -78,6 +241,37 @@ const Admin = () => {
   const fetchUsers = async () => {
     const { data } = await supabase.rpc("get_all_users_with_roles");
     setUsers(data || []);
+    fetchLockedLogins();
+    fetchNoShows();
+  };
+
+  const fetchNoShows = async () => {
+    const { data } = await supabase.rpc("get_no_show_report");
+    setNoShows(data || []);
+  };
+
+  const noShowsFor = (userId: string) => noShows.filter(n => n.user_id === userId);
+
+  const fetchLockedLogins = async () => {
+    const { data } = await supabase
+      .from("login_attempts")
+      .select("identifier, locked_until")
+      .eq("kind", "email")
+      .gt("locked_until", new Date().toISOString());
+
+    setLockedLogins(Object.fromEntries((data || []).map(a => [a.identifier, a.locked_until!])));
+  };
+
+  const handleUnlock = async (email: string) => {
+    const { error } = await supabase.rpc("unlock_login", { _email: email });
+
+    if (error) {
+      toast({ title: "Unlock Failed ❌", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Account Unlocked 🔓", description: `${email} can sign in again.` });
+    fetchLockedLogins();
   };
 
   const handleAddUser = async () => {
@@ -88,7 +282,7 @@ const Admin = () => {
     });
 
     if (error) {
-      toast({ title: "Error", description: error.message, variant: "destructive" });
+      toast({ title: "Error", description: await functionErrorMessage(error), variant: "destructive" });
       return;
     }
 
@@ -98,10 +292,13 @@ const Admin = () => {
     fetchUsers();
   };
 
-  const updateRole = async (userId: string, role: "admin" | "user") => {
-    await supabase
-      .from("user_roles")
-      .upsert({ user_id: userId, role }, { onConflict: "user_id" });
+  const updateRole = async (userId: string, role: Enums<"app_role">) => {
+    const { error } = await supabase.rpc("set_user_role", { _user_id: userId, _role: role });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
 
     toast({ title: "Role Updated ✅" });
     fetchUsers();
@@ -122,15 +319,18 @@ const Admin = () => {
       if (error) {
         toast({
           title: "Delete Failed ❌",
-          description: error.message,
+          description: await functionErrorMessage(error),
           variant: "destructive",
         });
         return;
       }
 
+      const removed = data?.removed;
       toast({
         title: "User Deleted Successfully ✅",
-        description: "The user and all related data have been removed.",
+        description: removed
+          ? `Removed ${removed.auth_user}: ${removed.bookings.length} booking(s), role(s) ${removed.roles.join(", ") || "none"}${removed.allowed_user ? ", allow-list entry" : ""}.`
+          : "The user and all related data have been removed.",
       });
 
       // Refresh everything
@@ -155,70 +355,404 @@ const Admin = () => {
     const sheet = workbook.Sheets[workbook.SheetNames[0]];
     const rows: any[] = XLSX.utils.sheet_to_json(sheet);
 
+    let added = 0;
+    let skipped = 0;
+
     for (const row of rows) {
       const email = row.email?.toString().trim().toLowerCase();
       const uti = row.uti?.toString().trim();
       if (!email || !uti) continue;
 
-      await supabase.functions.invoke("add_user", {
+      const { error } = await supabase.functions.invoke("add_user", {
         body: { email, uti, role: "user" },
       });
+
+      if (error) skipped++;
+      else added++;
     }
 
-    toast({ title: "Excel Upload Complete ✅" });
+    toast({
+      title: "Excel Upload Complete ✅",
+      description: `${added} added, ${skipped} skipped (duplicates or errors).`,
+    });
     fetchUsers();
   };
 
+  // ================= TIERS =================
+
+  const fetchTiers = async () => {
+    const { data } = await supabase
+      .from("priority_tiers")
+      .select("id, name, early_access_minutes, lottery_weight")
+      .order("early_access_minutes", { ascending: false });
+    setTiers(data || []);
+  };
+
+  const fetchTierStats = async () => {
+    if (!selectedShowId) return;
+    const { data } = await supabase.rpc("get_tier_booking_stats", { _show_id: selectedShowId });
+    setTierStats(data || []);
+  };
+
+  const handleAddTier = async () => {
+    if (!newTierName) return;
+
+    const { error } = await supabase.from("priority_tiers").insert({
+      name: newTierName,
+      early_access_minutes: Math.max(0, parseInt(newTierMinutes) || 0),
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Tier Added ✅" });
+    setNewTierName("");
+    fetchTiers();
+  };
+
+  const handleUpdateTier = async (id: string, patch: Partial<Pick<PriorityTier, "early_access_minutes" | "lottery_weight">>) => {
+    const { error } = await supabase
+      .from("priority_tiers")
+      .update(patch)
+      .eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Tier Updated ✅" });
+    fetchTiers();
+  };
+
+  const handleDeleteTier = async (tier: PriorityTier) => {
+    const { error } = await supabase.from("priority_tiers").delete().eq("id", tier.id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Tier Deleted ✅" });
+    fetchTiers();
+    fetchUsers();
+    fetchTierStats();
+  };
+
+  const handleBulkAssignTier = async () => {
+    const emails = users.filter(u => selectedUserIds.includes(u.id)).map(u => u.email.toLowerCase());
+    if (emails.length === 0) return;
+
+    const { error } = await supabase
+      .from("allowed_users")
+      .update({ tier_id: bulkTierId === "none" ? null : bulkTierId })
+      .in("email", emails);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Tier Assigned ✅", description: `${emails.length} user(s) updated.` });
+    setSelectedUserIds([]);
+    fetchUsers();
+    fetchTierStats();
+  };
+
+  // Either way the user's request has been answered
+  const handleSetAccessibleSeating = async (user: UserWithRole, needed: boolean) => {
+    const { error } = await supabase
+      .from("allowed_users")
+      .update({ needs_accessible_seating: needed, accessible_seating_requested: false })
+      .eq("email", user.email.toLowerCase());
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: needed
+        ? "Accessible Seating On ♿"
+        : user.accessible_seating_requested ? "Request Declined" : "Accessible Seating Off",
+      description: user.email,
+    });
+    fetchUsers();
+  };
+
+  const toggleUserSelected = (id: string) =>
+    setSelectedUserIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+
+  const statsFor = (tierId: string | null) =>
+    tierStats.find(t => t.tier_id === tierId) ?? { users: 0, booked: 0 };
+
+  // ================= SHOWS =================
+
+  const fetchShows = async () => {
+    const { data } = await supabase.from("shows").select("*").order("starts_at");
+    setShows(data || []);
+    if (data?.length && !selectedShowId) setSelectedShowId(data[0].id);
+  };
+
+  const handleCreateShow = async () => {
+    if (!newShowTitle || !newShowStartsAt) return;
+
+    const { data: layoutData, error: layoutError } = await supabase
+      .from("seat_layout")
+      .insert({ name: newShowTitle, total_rows: parseInt(newShowRows) || 20 })
+      .select("id")
+      .single();
+
+    if (layoutError) {
+      toast({ title: "Error", description: layoutError.message, variant: "destructive" });
+      return;
+    }
+
+    const { data: showData, error } = await supabase
+      .from("shows")
+      .insert({
+        title: newShowTitle,
+        starts_at: new Date(newShowStartsAt).toISOString(),
+        seat_layout_id: layoutData.id,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      await supabase.from("seat_layout").delete().eq("id", layoutData.id);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    const { error: seatsError } = await supabase.rpc("generate_seats_for_layout", {
+      _layout_id: layoutData.id,
+    });
+
+    // A show without seats cannot be booked, so undo it like a failed insert
+    if (seatsError) {
+      await supabase.from("shows").delete().eq("id", showData.id);
+      await supabase.from("seat_layout").delete().eq("id", layoutData.id);
+      toast({ title: "Error", description: seatsError.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Show Created ✅" });
+    setNewShowTitle("");
+    setNewShowStartsAt("");
+    await fetchShows();
+    setSelectedShowId(showData.id);
+  };
+
+  const handleUpdateShow = async (id: string, patch: Partial<Pick<
+    Show,
+    | "change_cutoff_at"
+    | "max_seat_changes"
+    | "waitlist_claim_minutes"
+    | "transfer_accept_minutes"
+    | "booking_opens_at"
+    | "booking_closes_at"
+    | "booking_paused"
+    | "allocation_mode"
+    | "no_show_grace_minutes"
+    | "no_show_release_to"
+  >>) => {
+    const { error } = await supabase.from("shows").update(patch).eq("id", id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Show Updated ✅" });
+    fetchShows();
+  };
+
+  // Immediate overrides of the scheduled booking window
+  const handleOpenBookingNow = (show: Show) =>
+    handleUpdateShow(show.id, {
+      booking_opens_at: new Date().toISOString(),
+      booking_paused: false,
+      // Reopening a closed show drops the early close; it then runs to the start time
+      ...(show.booking_closes_at && new Date(show.booking_closes_at) <= new Date()
+        ? { booking_closes_at: null }
+        : {}),
+    });
+
+  const handleCloseBookingNow = (show: Show) =>
+    handleUpdateShow(show.id, { booking_closes_at: new Date().toISOString() });
+
+  // ================= LOTTERY =================
+
+  const fetchLottery = async () => {
+    if (!selectedShowId) return;
+
+    const [{ count }, { data }] = await Promise.all([
+      supabase
+        .from("lottery_applications")
+        .select("id", { count: "exact", head: true })
+        .eq("show_id", selectedShowId),
+      supabase.rpc("get_lottery_report", { _show_id: selectedShowId }),
+    ]);
+
+    setLotteryApplicants(count ?? 0);
+    setLotteryReport(data || []);
+  };
+
+  const fetchTransferLog = async () => {
+    if (!selectedShowId) return;
+    const { data } = await supabase.rpc("get_seat_transfer_log", { _show_id: selectedShowId });
+    setTransferLog(data || []);
+  };
+
+  const handleRunLottery = async () => {
+    if (!selectedShow) return;
+    if (!window.confirm(
+      `Draw seats for ${lotteryApplicants} applicant(s) of "${selectedShow.title}"? This writes their bookings and can only be done once.`
+    )) return;
+
+    setRunningLottery(true);
+    const { data: allocated, error } = await supabase.rpc("run_lottery_allocation", { _show_id: selectedShow.id });
+    setRunningLottery(false);
+
+    if (error) {
+      toast({ title: "Lottery Failed ❌", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Lottery Drawn 🎲", description: `${allocated} of ${lotteryApplicants} applicant(s) got a seat.` });
+    fetchShows();
+    fetchLottery();
+    fetchLayout();
+    fetchBookings();
+  };
+
+  const lotteryOutcome = (r: LotteryReportRow) =>
+    r.row_num === null ? "No seat" : r.allocated_rank === null ? "Fallback seat" : `Choice #${r.allocated_rank}`;
+
+  const handleDownloadLotteryReport = () => {
+    if (!selectedShow) return;
+
+    const sheet = XLSX.utils.json_to_sheet(lotteryReport.map(r => ({
+      "Draw #": r.draw_position,
+      Email: r.email,
+      Weight: r.weight,
+      Preferences: r.preference_count,
+      Outcome: lotteryOutcome(r),
+      Seat: r.row_num !== null && r.col_num !== null ? getSeatLabel(r.row_num, r.col_num) : "",
+    })));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Lottery");
+    XLSX.writeFile(workbook, `${selectedShow.title} lottery.xlsx`);
+  };
+
   // ================= LAYOUT =================
 
   const fetchLayout = async () => {
-    const layoutRes = await supabase.from("seat_layout").select("*").single();
-    const seatsRes = await supabase.from("seats").select("*").order("row_num").order("col_num");
+    if (!selectedShow) return;
 
-    setLayout(layoutRes.data);
+    const layoutRes = await supabase
+      .from("seat_layout")
+      .select("*")
+      .eq("id", selectedShow.seat_layout_id)
+      .single();
+    const seatsRes = await supabase
+      .from("seats")
+      .select("*")
+      .eq("seat_layout_id", selectedShow.seat_layout_id)
+      .order("row_num")
+      .order("col_num");
+
+    setLayout(
+      layoutRes.data && {
+        ...layoutRes.data,
+        definition: parseLayoutDefinition(layoutRes.data.definition),
+      }
+    );
     setSeats(seatsRes.data || []);
-    if (layoutRes.data) setNewRows(String(layoutRes.data.total_rows));
   };
 
-  const handleUpdateLayout = async () => {
-    if (!layout) return;
+  // Saving from the editor only opens the preview; nothing is written yet
+  const handleUpdateLayout = (rows: number, definition: LayoutDefinition) => {
+    setPendingLayout({ rows, definition });
+  };
 
-    await supabase
-      .from("seat_layout")
-      .update({ total_rows: parseInt(newRows), total_columns: 16 })
-      .eq("id", layout.id);
+  const handleApplyLayout = async (relocations: Relocation[]) => {
+    if (!layout || !pendingLayout) return;
 
-    await supabase.rpc("generate_seats_for_layout", {
+    setSavingLayout(true);
+
+    const { error } = await supabase.rpc("apply_layout_change", {
       _layout_id: layout.id,
+      _rows: pendingLayout.rows,
+      _definition: pendingLayout.definition as unknown as Json,
+      _relocations: relocations as unknown as Json,
     });
 
-    toast({ title: "Layout Updated (4-8-4)" });
+    setSavingLayout(false);
+
+    if (error) {
+      toast({ title: "Layout Not Changed ❌", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Layout Updated ✅",
+      description: relocations.length ? `${relocations.length} booking(s) relocated.` : undefined,
+    });
+    setPendingLayout(null);
     fetchLayout();
+    fetchBookings();
   };
 
-  const handleToggleFreeze = async (seat: Seat) => {
-    await supabase
+  // Clicking again with the same brush resets the seat
+  const handleSetSeatStatus = async (seat: Seat) => {
+    const category = seatCategoryBrush.trim() || null;
+    const reset = seat.status === seatStatusBrush && seat.category === category;
+
+    if (!reset && seat.is_booked && !isBookableStatus(seatStatusBrush)) {
+      toast({
+        title: "Seat Is Booked",
+        description: "Move the booking to another seat before blocking or reserving this one.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase
       .from("seats")
-      .update({ is_booked: !seat.is_booked })
+      .update(reset ? { status: "available", category: null } : { status: seatStatusBrush, category })
       .eq("id", seat.id);
 
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+
     fetchLayout();
   };
 
   // ================= BOOKINGS =================
 
   const fetchBookings = async () => {
-    const { data } = await supabase.rpc("get_all_bookings_with_email");
+    if (!selectedShowId) return;
+
+    const { data } = await supabase.rpc("get_all_bookings_with_email", {
+      _show_id: selectedShowId,
+    });
     if (!data) return;
 
     setBookings(
-      data.map((b: any) => ({
+      data.map(b => ({
         id: b.id,
         user_id: b.user_id,
         user_email: b.email,
         seat_id: b.seat_id,
         row_num: b.row_num,
         col_num: b.col_num,
+        companion_for: b.companion_for,
+        checked_in_at: b.checked_in_at,
       }))
     );
   };
@@ -238,22 +772,52 @@ const Admin = () => {
     fetchAll();
   };
 
-  const availableSeats = seats.filter(s => !s.is_booked);
+  const handleSwapBookings = async () => {
+    if (!swappingBooking || !swapWithId) return;
 
-  const getSeatLabel = (row: number, col: number) =>
-    `${String.fromCharCode(64 + col)}${row}`;
+    const { data: result, error } = await supabase.rpc("swap_bookings", {
+      _first_booking_id: swappingBooking.id,
+      _second_booking_id: swapWithId,
+    });
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Swap Failed ❌",
+        description: result ? SWAP_FAILURES[result].description : error?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Seats Swapped ✅" });
+    setSwappingBooking(null);
+    setSwapWithId("");
+    fetchAll();
+  };
+
+  // Admins may seat someone in a VIP seat, but not in a blocked one
+  const availableSeats = seats.filter(s => !s.is_booked && s.status !== "blocked");
 
   const renderSeat = (row: number, col: number) => {
     const seat = seats.find(s => s.row_num === row && s.col_num === col);
-    if (!seat) return null;
+    if (!seat) return <div key={col} className="w-8 h-8" />;
+    const status = getSeatStatus(seat);
+    const StatusIcon = SEAT_STATUS_ICONS[status];
     return (
       <button
         key={col}
-        onClick={() => handleToggleFreeze(seat)}
-        className={`w-8 h-8 rounded text-xs ${seat.is_booked ? "bg-red-400" : "bg-green-400"
-          }`}
+        onClick={() => handleSetSeatStatus(seat)}
+        title={[SEAT_STATUS_LABELS[status], seat.category].filter(Boolean).join(" · ")}
+        aria-label={[`Row ${row}, seat ${getColumnLabel(col)}`, SEAT_STATUS_LABELS[status], seat.category]
+          .filter(Boolean)
+          .join(", ")}
+        className={`relative w-8 h-8 rounded text-xs ${SEAT_STATUS_CLASSES[status]
+          } ${justBooked.includes(seat.id) ? "animate-seat-booked" : ""}`}
       >
         {getSeatLabel(row, col)}
+        {StatusIcon && (
+          <StatusIcon aria-hidden className="absolute -top-1 -right-1 w-3.5 h-3.5 p-0.5 rounded-full bg-background text-foreground border" />
+        )}
       </button>
     );
   };
@@ -269,9 +833,24 @@ const Admin = () => {
           <h1 className="text-2xl font-bold">Admin Panel</h1>
         </div>
 
+        <div className="flex items-center gap-3">
+          <Label className="whitespace-nowrap">Managing show</Label>
+          <Select value={selectedShowId} onValueChange={setSelectedShowId}>
+            <SelectTrigger className="max-w-sm"><SelectValue placeholder="No shows yet" /></SelectTrigger>
+            <SelectContent>
+              {shows.map(s => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.title} · {format(new Date(s.starts_at), "d MMM, HH:mm")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <Tabs defaultValue="users">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="shows">Shows</TabsTrigger>
             <TabsTrigger value="layout">Layout</TabsTrigger>
             <TabsTrigger value="bookings">Bookings</TabsTrigger>
           </TabsList>
@@ -283,11 +862,12 @@ const Admin = () => {
 
                 <div className="flex gap-2">
                   <Input placeholder="Email" value={newEmail} onChange={e => setNewEmail(e.target.value)} />
-                  <Input placeholder="Password" value={newUti} onChange={e => setNewUti(e.target.value)} />
+                  <Input placeholder="UTI" value={newUti} onChange={e => setNewUti(e.target.value)} />
                   <Select value={newRole} onValueChange={(v: any) => setNewRole(v)}>
                     <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
                     <SelectContent>
                       <SelectItem value="user">User</SelectItem>
+                      <SelectItem value="usher">Usher</SelectItem>
                       <SelectItem value="admin">Admin</SelectItem>
                     </SelectContent>
                   </Select>
@@ -297,27 +877,191 @@ const Admin = () => {
                 <Label>Upload Excel (email | uti)</Label>
                 <Input type="file" accept=".xlsx,.xls" onChange={handleExcelUpload} />
 
+                {/* Priority tiers */}
+                <div className="space-y-2">
+                  <Label>Priority tiers · booked counts for {selectedShow?.title ?? "the selected show"}</Label>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Tier</TableHead>
+                        <TableHead>Books early by (min)</TableHead>
+                        <TableHead>Lottery weight</TableHead>
+                        <TableHead>Users</TableHead>
+                        <TableHead>Booked</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tiers.map(t => (
+                        <TableRow key={t.id}>
+                          <TableCell>{t.name}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0}
+                              className="w-24"
+                              defaultValue={t.early_access_minutes}
+                              onBlur={e => e.target.value !== e.target.defaultValue &&
+                                handleUpdateTier(t.id, { early_access_minutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={0.1}
+                              step={0.1}
+                              className="w-24"
+                              defaultValue={t.lottery_weight}
+                              onBlur={e => e.target.value !== e.target.defaultValue &&
+                                handleUpdateTier(t.id, { lottery_weight: Math.max(0.1, parseFloat(e.target.value) || 1) })}
+                            />
+                          </TableCell>
+                          <TableCell>{statsFor(t.id).users}</TableCell>
+                          <TableCell>{statsFor(t.id).booked}</TableCell>
+                          <TableCell>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="sm" variant="ghost">
+                                  <Trash2 size={14} />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete This Tier?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Users in <strong>{t.name}</strong> go back to general booking.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Keep It</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeleteTier(t)}>
+                                    Yes, Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">No tier</TableCell>
+                        <TableCell className="text-muted-foreground">0</TableCell>
+                        <TableCell className="text-muted-foreground">1</TableCell>
+                        <TableCell>{statsFor(null).users}</TableCell>
+                        <TableCell>{statsFor(null).booked}</TableCell>
+                        <TableCell></TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                  <div className="flex gap-2">
+                    <Input placeholder="New tier, e.g. Organisers" value={newTierName} onChange={e => setNewTierName(e.target.value)} />
+                    <Input type="number" min={0} className="w-28" value={newTierMinutes} onChange={e => setNewTierMinutes(e.target.value)} />
+                    <Button onClick={handleAddTier}><Plus size={14} /> Add Tier</Button>
+                  </div>
+                </div>
+
+                {/* Bulk tier assignment */}
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm text-muted-foreground">{selectedUserIds.length} selected</span>
+                  <Select value={bulkTierId} onValueChange={setBulkTierId}>
+                    <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No tier</SelectItem>
+                      {tiers.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" disabled={selectedUserIds.length === 0} onClick={handleBulkAssignTier}>
+                    Assign Tier
+                  </Button>
+                </div>
+
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead>
+                        <input
+                          type="checkbox"
+                          aria-label="Select all users"
+                          checked={users.length > 0 && selectedUserIds.length === users.length}
+                          onChange={e => setSelectedUserIds(e.target.checked ? users.map(u => u.id) : [])}
+                        />
+                      </TableHead>
                       <TableHead>Email</TableHead>
+                      <TableHead>Tier</TableHead>
                       <TableHead>Role</TableHead>
+                      <TableHead>Accessible</TableHead>
+                      <TableHead>No-shows</TableHead>
+                      <TableHead>Sign-in</TableHead>
                       <TableHead>Remove</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {users.map(u => (
                       <TableRow key={u.id}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${u.email}`}
+                            checked={selectedUserIds.includes(u.id)}
+                            onChange={() => toggleUserSelected(u.id)}
+                          />
+                        </TableCell>
                         <TableCell>{u.email}</TableCell>
+                        <TableCell>{tiers.find(t => t.id === u.tier_id)?.name ?? "—"}</TableCell>
                         <TableCell>
                           <Select value={u.role} onValueChange={(val: any) => updateRole(u.id, val)}>
                             <SelectTrigger className="w-24"><SelectValue /></SelectTrigger>
                             <SelectContent>
                               <SelectItem value="user">User</SelectItem>
+                              <SelectItem value="usher">Usher</SelectItem>
                               <SelectItem value="admin">Admin</SelectItem>
                             </SelectContent>
                           </Select>
                         </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              aria-label={`${u.email} needs accessible seating`}
+                              checked={u.needs_accessible_seating}
+                              onChange={e => handleSetAccessibleSeating(u, e.target.checked)}
+                            />
+                            {u.accessible_seating_requested && (
+                              <>
+                                <Badge variant="secondary">Requested</Badge>
+                                <Button size="sm" variant="ghost" onClick={() => handleSetAccessibleSeating(u, false)}>
+                                  Decline
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {noShowsFor(u.id).length === 0 ? (
+                            <span className="text-sm text-muted-foreground">0</span>
+                          ) : (
+                            <Badge
+                              variant={noShowsFor(u.id).length > 1 ? "destructive" : "secondary"}
+                              title={noShowsFor(u.id).map(n => `${n.show_title} (${n.seat_label})`).join("\n")}
+                            >
+                              {noShowsFor(u.id).length}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {lockedLogins[u.email] ? (
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-destructive">
+                                Locked until {format(new Date(lockedLogins[u.email]), "HH:mm")}
+                              </span>
+                              <Button size="sm" variant="outline" className="gap-1" onClick={() => handleUnlock(u.email)}>
+                                <Unlock size={14} /> Unlock
+                              </Button>
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">OK</span>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Button size="sm" variant="destructive" onClick={() => handleDeleteUser(u.id)}>
                             <Trash2 size={14} />
@@ -332,28 +1076,281 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
-          {/* LAYOUT TAB */}
-          <TabsContent value="layout">
+          {/* SHOWS TAB */}
+          <TabsContent value="shows">
             <Card>
-              <CardHeader><CardTitle>Seat Layout (4-8-4)</CardTitle></CardHeader>
-              <CardContent className="space-y-4">
+              <CardContent className="space-y-4 p-6">
 
-                <div className="flex gap-4">
-                  <Input type="number" value={newRows} onChange={e => setNewRows(e.target.value)} />
-                  <Button onClick={handleUpdateLayout}>Update Layout</Button>
+                <div className="flex gap-2">
+                  <Input placeholder="Title" value={newShowTitle} onChange={e => setNewShowTitle(e.target.value)} />
+                  <Input type="datetime-local" value={newShowStartsAt} onChange={e => setNewShowStartsAt(e.target.value)} />
+                  <Input type="number" className="w-24" placeholder="Rows" value={newShowRows} onChange={e => setNewShowRows(e.target.value)} />
+                  <Button onClick={handleCreateShow}><Plus size={14} /> Add</Button>
                 </div>
 
-                {layout && Array.from({ length: layout.total_rows }, (_, r) => {
-                  const row = r + 1;
-                  return (
-                    <div key={r} className="flex gap-6">
-                      <div className="flex gap-1">{[1, 2, 3, 4].map(c => renderSeat(row, c))}</div>
-                      <div className="flex gap-1">{[5, 6, 7, 8, 9, 10, 11, 12].map(c => renderSeat(row, c))}</div>
-                      <div className="flex gap-1">{[13, 14, 15, 16].map(c => renderSeat(row, c))}</div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Starts</TableHead>
+                      <TableHead>Seat changes until</TableHead>
+                      <TableHead>Max changes</TableHead>
+                      <TableHead>Waitlist claim (min)</TableHead>
+                      <TableHead>Transfer accept (min)</TableHead>
+                      <TableHead>Booking opens</TableHead>
+                      <TableHead>Booking closes</TableHead>
+                      <TableHead>Booking</TableHead>
+                      <TableHead>Allocation</TableHead>
+                      <TableHead>Release no-shows after (min)</TableHead>
+                      <TableHead>No-show seats go to</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shows.map(s => (
+                      <TableRow key={s.id}>
+                        <TableCell>{s.title}</TableCell>
+                        <TableCell>{format(new Date(s.starts_at), "EEE d MMM yyyy, HH:mm")}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="datetime-local"
+                            defaultValue={s.change_cutoff_at ? format(new Date(s.change_cutoff_at), "yyyy-MM-dd'T'HH:mm") : ""}
+                            onBlur={e => e.target.value !== e.target.defaultValue && handleUpdateShow(s.id, {
+                              change_cutoff_at: e.target.value ? new Date(e.target.value).toISOString() : null,
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20"
+                            defaultValue={s.max_seat_changes}
+                            onBlur={e => e.target.value !== e.target.defaultValue &&
+                              handleUpdateShow(s.id, { max_seat_changes: parseInt(e.target.value) || 0 })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-20"
+                            defaultValue={s.waitlist_claim_minutes}
+                            onBlur={e => e.target.value !== e.target.defaultValue &&
+                              handleUpdateShow(s.id, { waitlist_claim_minutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-20"
+                            defaultValue={s.transfer_accept_minutes}
+                            onBlur={e => e.target.value !== e.target.defaultValue &&
+                              handleUpdateShow(s.id, { transfer_accept_minutes: Math.max(1, parseInt(e.target.value) || 1) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            key={s.booking_opens_at}
+                            type="datetime-local"
+                            defaultValue={s.booking_opens_at ? format(new Date(s.booking_opens_at), "yyyy-MM-dd'T'HH:mm") : ""}
+                            onBlur={e => e.target.value !== e.target.defaultValue && handleUpdateShow(s.id, {
+                              booking_opens_at: e.target.value ? new Date(e.target.value).toISOString() : null,
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            key={s.booking_closes_at}
+                            type="datetime-local"
+                            defaultValue={s.booking_closes_at ? format(new Date(s.booking_closes_at), "yyyy-MM-dd'T'HH:mm") : ""}
+                            onBlur={e => e.target.value !== e.target.defaultValue && handleUpdateShow(s.id, {
+                              booking_closes_at: e.target.value ? new Date(e.target.value).toISOString() : null,
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <span className="text-sm w-16">{BOOKING_STATE_LABELS[getBookingState(s)]}</span>
+                            <Button size="sm" variant="ghost" title="Open now" onClick={() => handleOpenBookingNow(s)}>
+                              <Play size={14} />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title={s.booking_paused ? "Resume" : "Pause"}
+                              onClick={() => handleUpdateShow(s.id, { booking_paused: !s.booking_paused })}
+                            >
+                              <Pause size={14} className={s.booking_paused ? "text-amber-500" : ""} />
+                            </Button>
+                            <Button size="sm" variant="ghost" title="Close now" onClick={() => handleCloseBookingNow(s)}>
+                              <Square size={14} />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={s.allocation_mode}
+                            disabled={!!s.lottery_ran_at}
+                            onValueChange={(v: Show["allocation_mode"]) => handleUpdateShow(s.id, { allocation_mode: v })}
+                          >
+                            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="first_come">First come</SelectItem>
+                              <SelectItem value="lottery">Lottery</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-20"
+                            placeholder="Never"
+                            defaultValue={s.no_show_grace_minutes ?? ""}
+                            onBlur={e => e.target.value !== e.target.defaultValue && handleUpdateShow(s.id, {
+                              no_show_grace_minutes: e.target.value === "" ? null : Math.max(0, parseInt(e.target.value) || 0),
+                            })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={s.no_show_release_to}
+                            onValueChange={(v: Show["no_show_release_to"]) => handleUpdateShow(s.id, { no_show_release_to: v })}
+                          >
+                            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="waitlist">Waitlist</SelectItem>
+                              <SelectItem value="walk_ins">Walk-ins</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {/* Lottery draw for the selected show */}
+                {selectedShow?.allocation_mode === "lottery" && (
+                  <div className="border p-4 rounded-lg space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="font-medium">Lottery · {selectedShow.title}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {selectedShow.lottery_ran_at
+                            ? `Drawn ${format(new Date(selectedShow.lottery_ran_at), "EEE d MMM, HH:mm")}, ${
+                                lotteryReport.filter(r => r.row_num !== null).length
+                              } of ${lotteryReport.length} applicant(s) seated. Seats left over are first come, first served.`
+                            : `${lotteryApplicants} applicant(s) so far`}
+                        </div>
+                      </div>
+                      {selectedShow.lottery_ran_at ? (
+                        <Button variant="outline" className="gap-2" onClick={handleDownloadLotteryReport}>
+                          <Download size={14} /> Download Report
+                        </Button>
+                      ) : (
+                        <Button
+                          className="gap-2"
+                          disabled={runningLottery || lotteryApplicants === 0}
+                          onClick={handleRunLottery}
+                        >
+                          <Dices size={14} /> {runningLottery ? "Drawing..." : "Run Lottery"}
+                        </Button>
+                      )}
                     </div>
-                  )
-                })}
 
+                    {lotteryReport.length > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Draw #</TableHead>
+                            <TableHead>Email</TableHead>
+                            <TableHead>Weight</TableHead>
+                            <TableHead>Preferences</TableHead>
+                            <TableHead>Outcome</TableHead>
+                            <TableHead>Seat</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lotteryReport.map(r => (
+                            <TableRow key={r.draw_position}>
+                              <TableCell>{r.draw_position}</TableCell>
+                              <TableCell>{r.email}</TableCell>
+                              <TableCell>{r.weight}</TableCell>
+                              <TableCell>{r.preference_count}</TableCell>
+                              <TableCell>{lotteryOutcome(r)}</TableCell>
+                              <TableCell>
+                                {r.row_num !== null && r.col_num !== null ? getSeatLabel(r.row_num, r.col_num) : "—"}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                )}
+
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* LAYOUT TAB */}
+          <TabsContent value="layout">
+            <Card>
+              <CardHeader><CardTitle>Layout Editor</CardTitle></CardHeader>
+              <CardContent>
+                {layout && (
+                  <LayoutEditor
+                    rows={layout.total_rows}
+                    definition={layout.definition}
+                    saving={savingLayout}
+                    onSave={handleUpdateLayout}
+                  />
+                )}
+                {pendingLayout && (
+                  <LayoutChangePreview
+                    open
+                    rows={pendingLayout.rows}
+                    definition={pendingLayout.definition}
+                    seats={seats}
+                    bookings={bookings}
+                    applying={savingLayout}
+                    onAbort={() => setPendingLayout(null)}
+                    onApply={handleApplyLayout}
+                  />
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="mt-4">
+              <CardHeader><CardTitle>Seats</CardTitle></CardHeader>
+              <CardContent className="overflow-x-auto space-y-4">
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">Click a seat to mark it</span>
+                  <Select value={seatStatusBrush} onValueChange={(v: Enums<"seat_status">) => setSeatStatusBrush(v)}>
+                    <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(["blocked", "vip_reserved", "wheelchair", "easy_access", "restricted_view", "available"] as const).map(status => (
+                        <SelectItem key={status} value={status}>{SEAT_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="max-w-xs"
+                    placeholder="Category (optional), e.g. Premium"
+                    value={seatCategoryBrush}
+                    onChange={e => setSeatCategoryBrush(e.target.value)}
+                  />
+                </div>
+                <SeatLegend statuses={["available", "booked", "blocked", "vip_reserved", "wheelchair", "easy_access", "restricted_view"]} />
+                {layout && (
+                  <SeatGrid
+                    rows={layout.total_rows}
+                    definition={layout.definition}
+                    cellSize={32}
+                    renderSeat={renderSeat}
+                  />
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -368,6 +1365,7 @@ const Admin = () => {
                     <TableRow>
                       <TableHead>Seat</TableHead>
                       <TableHead>User</TableHead>
+                      <TableHead>Checked in</TableHead>
                       <TableHead>Modify</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -375,9 +1373,27 @@ const Admin = () => {
                     {bookings.map(b => (
                       <TableRow key={b.id}>
                         <TableCell>{getSeatLabel(b.row_num, b.col_num)}</TableCell>
-                        <TableCell>{b.user_email}</TableCell>
                         <TableCell>
-                          <Button size="sm" onClick={() => setEditingBooking(b)}>Change</Button>
+                          {b.user_email}
+                          {b.companion_for && <span className="ml-2 text-xs text-muted-foreground">(companion)</span>}
+                        </TableCell>
+                        <TableCell>
+                          {b.checked_in_at ? format(new Date(b.checked_in_at), "HH:mm") : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => setEditingBooking(b)}>Change</Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setSwappingBooking(b);
+                                setSwapWithId("");
+                              }}
+                            >
+                              Swap
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -405,6 +1421,85 @@ const Admin = () => {
                   </div>
                 )}
 
+                {swappingBooking && (
+                  <div className="border p-4 rounded-lg space-y-3">
+                    <div>
+                      Swap seat {getSeatLabel(swappingBooking.row_num, swappingBooking.col_num)} of{" "}
+                      {swappingBooking.user_email} with
+                    </div>
+                    <Select value={swapWithId} onValueChange={setSwapWithId}>
+                      <SelectTrigger><SelectValue placeholder="Select another booking" /></SelectTrigger>
+                      <SelectContent>
+                        {bookings.filter(b => b.id !== swappingBooking.id).map(b => (
+                          <SelectItem key={b.id} value={b.id}>
+                            {getSeatLabel(b.row_num, b.col_num)} · {b.user_email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <div className="flex gap-2">
+                      <Button onClick={handleSwapBookings} disabled={!swapWithId}>Swap Seats</Button>
+                      <Button variant="outline" onClick={() => setSwappingBooking(null)}>Cancel</Button>
+                    </div>
+                  </div>
+                )}
+
+                {transferLog.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Seat transfers</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seat</TableHead>
+                          <TableHead>From</TableHead>
+                          <TableHead>To</TableHead>
+                          <TableHead>Offered</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {transferLog.map(t => (
+                          <TableRow key={t.id}>
+                            <TableCell>{t.seat_label}</TableCell>
+                            <TableCell>{t.from_email}</TableCell>
+                            <TableCell>{t.to_email}</TableCell>
+                            <TableCell>{format(new Date(t.created_at), "d MMM, HH:mm")}</TableCell>
+                            <TableCell>
+                              {TRANSFER_STATUS_LABELS[t.status]}
+                              {t.responded_at && ` · ${format(new Date(t.responded_at), "d MMM, HH:mm")}`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {noShows.some(n => n.show_id === selectedShowId) && (
+                  <div className="space-y-2">
+                    <h3 className="font-semibold">Released no-shows</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seat</TableHead>
+                          <TableHead>User</TableHead>
+                          <TableHead>Released</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {noShows.filter(n => n.show_id === selectedShowId).map(n => (
+                          <TableRow key={n.id}>
+                            <TableCell>{n.seat_label}</TableCell>
+                            <TableCell>{n.email}</TableCell>
+                            <TableCell>{format(new Date(n.released_at), "HH:mm")}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
               </CardContent>
             </Card>
           </TabsContent>
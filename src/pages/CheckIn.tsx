@@ -0,0 +1,406 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Enums } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import QrScanner from "@/components/QrScanner";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { getSeatLabel } from "@/lib/seatLayout";
+import { isBookableStatus } from "@/lib/seatStatus";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Search, UserPlus, XCircle } from "lucide-react";
+
+interface Show {
+  id: string;
+  title: string;
+  starts_at: string;
+  seat_layout_id: string;
+}
+
+interface FreeSeat {
+  id: string;
+  row_num: number;
+  col_num: number;
+}
+
+type CheckInOutcome = Database["public"]["Functions"]["check_in_ticket"]["Returns"][number];
+type BookingMatch = Database["public"]["Functions"]["search_show_bookings"]["Returns"][number];
+
+type Tone = "success" | "warning" | "error";
+
+const CHECK_IN_RESULTS: Record<Enums<"check_in_result">, { title: string; description: string; tone: Tone }> = {
+  ok: {
+    title: "Checked In ✅",
+    description: "Welcome them in.",
+    tone: "success",
+  },
+  already_checked_in: {
+    title: "Already Checked In",
+    description: "This ticket has been used. Check the guest's ID before letting them in.",
+    tone: "warning",
+  },
+  invalid_signature: {
+    title: "Invalid Ticket",
+    description: "This code was not issued by us or has been tampered with.",
+    tone: "error",
+  },
+  wrong_show: {
+    title: "Wrong Show",
+    description: "This ticket is for a different show.",
+    tone: "error",
+  },
+  outdated_ticket: {
+    title: "Outdated Ticket",
+    description: "The seat was changed after this ticket was issued. Ask the guest for their latest ticket.",
+    tone: "warning",
+  },
+  not_accepted: {
+    title: "Invitation Not Accepted",
+    description: "A colleague booked this seat for the guest, but they never accepted it.",
+    tone: "warning",
+  },
+  not_found: {
+    title: "No Booking",
+    description: "This booking has been released.",
+    tone: "error",
+  },
+};
+
+const WALK_IN_RESULTS: Record<Enums<"walk_in_result">, string> = {
+  ok: "The guest is booked and checked in.",
+  seat_taken: "Someone else has just taken this seat.",
+  seat_blocked: "This seat cannot be booked.",
+  unknown_user: "No account uses this email address.",
+  already_booked: "This guest already has a seat for the show.",
+};
+
+const TONE_STYLES: Record<Tone, { card: string; icon: typeof CheckCircle2 }> = {
+  success: { card: "border-green-500 bg-green-50 text-green-900", icon: CheckCircle2 },
+  warning: { card: "border-amber-500 bg-amber-50 text-amber-900", icon: AlertTriangle },
+  error: { card: "border-destructive bg-destructive/10 text-destructive", icon: XCircle },
+};
+
+// The same code stays in view for a while; ignore it until the usher moves on
+const RESCAN_MS = 4000;
+
+const CheckIn = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [shows, setShows] = useState<Show[]>([]);
+  const [showId, setShowId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<CheckInOutcome | null>(null);
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<BookingMatch[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [freeSeats, setFreeSeats] = useState<FreeSeat[]>([]);
+  const [walkInSeatId, setWalkInSeatId] = useState<string | null>(null);
+  const [walkInEmail, setWalkInEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+
+  useEffect(() => {
+    const fetchShows = async () => {
+      const { data } = await supabase.from("shows").select("id, title, starts_at, seat_layout_id").order("starts_at");
+      setShows(data || []);
+
+      // Default to the show about to start, allowing for latecomers
+      const cutoff = Date.now() - 3 * 60 * 60 * 1000;
+      const current = data?.find((s) => new Date(s.starts_at).getTime() > cutoff) ?? data?.[0];
+      setShowId(current?.id ?? null);
+    };
+
+    fetchShows();
+  }, []);
+
+  const selectShow = (id: string) => {
+    setShowId(id);
+    setOutcome(null);
+    setMatches([]);
+    setSearched(false);
+    setFreeSeats([]);
+    setWalkInSeatId(null);
+  };
+
+  const fetchFreeSeats = async () => {
+    const show = shows.find((s) => s.id === showId);
+    if (!show) return;
+
+    const { data } = await supabase
+      .from("seats")
+      .select("id, row_num, col_num, status")
+      .eq("seat_layout_id", show.seat_layout_id)
+      .eq("is_booked", false)
+      .order("row_num")
+      .order("col_num");
+    setFreeSeats((data || []).filter((s) => isBookableStatus(s.status)));
+  };
+
+  const report = (result: CheckInOutcome | undefined, error: { message: string } | null) => {
+    if (error || !result) {
+      toast({ title: "Check-in Failed", description: error?.message, variant: "destructive" });
+      return;
+    }
+
+    setOutcome(result);
+    if (result.result === "ok") {
+      setMatches((prev) =>
+        prev.map((m) => (m.booking_id === result.booking_id ? { ...m, checked_in_at: result.checked_in_at } : m))
+      );
+    }
+  };
+
+  const handleScan = async (code: string) => {
+    if (!showId || busy) return;
+
+    const now = Date.now();
+    if (lastScan.current?.code === code && now - lastScan.current.at < RESCAN_MS) return;
+    lastScan.current = { code, at: now };
+
+    setBusy(true);
+    const { data, error } = await supabase.rpc("check_in_ticket", { _show_id: showId, _code: code });
+    setBusy(false);
+    report(data?.[0], error);
+  };
+
+  const handleSearch = async () => {
+    if (!showId || !query.trim()) return;
+
+    const { data, error } = await supabase.rpc("search_show_bookings", { _show_id: showId, _query: query });
+    if (error) {
+      toast({ title: "Search Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setMatches(data || []);
+    setSearched(true);
+  };
+
+  const handleManualCheckIn = async (bookingId: string) => {
+    if (!showId) return;
+
+    setBusy(true);
+    const { data, error } = await supabase.rpc("check_in_booking", { _show_id: showId, _booking_id: bookingId });
+    setBusy(false);
+    report(data?.[0], error);
+  };
+
+  const handleWalkIn = async () => {
+    if (!walkInSeatId || !walkInEmail.trim()) return;
+
+    setBusy(true);
+    const { data: result, error } = await supabase.rpc("seat_walk_in", {
+      _seat_id: walkInSeatId,
+      _email: walkInEmail,
+    });
+    setBusy(false);
+
+    if (error || !result) {
+      toast({ title: "Walk-in Failed", description: error?.message, variant: "destructive" });
+      return;
+    }
+
+    if (result !== "ok") {
+      toast({ title: "Walk-in Failed", description: WALK_IN_RESULTS[result], variant: "destructive" });
+      if (result === "seat_taken") fetchFreeSeats();
+      return;
+    }
+
+    const seat = freeSeats.find((s) => s.id === walkInSeatId);
+    toast({
+      title: `Seat ${seat ? getSeatLabel(seat.row_num, seat.col_num) : ""} Given 🎟️`,
+      description: WALK_IN_RESULTS.ok,
+    });
+    setWalkInSeatId(null);
+    setWalkInEmail("");
+    fetchFreeSeats();
+  };
+
+  const outcomeInfo = outcome ? CHECK_IN_RESULTS[outcome.result] : null;
+  const OutcomeIcon = outcomeInfo ? TONE_STYLES[outcomeInfo.tone].icon : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30 p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-4 h-4" /> Back
+          </Button>
+          <h1 className="text-2xl font-bold">Check-in</h1>
+        </div>
+
+        <Select value={showId ?? undefined} onValueChange={selectShow}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a show" />
+          </SelectTrigger>
+          <SelectContent>
+            {shows.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.title} · {format(new Date(s.starts_at), "d MMM, HH:mm")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Last outcome */}
+        {outcome && outcomeInfo && OutcomeIcon && (
+          <Card role="status" className={`border-2 ${TONE_STYLES[outcomeInfo.tone].card}`}>
+            <CardContent className="flex items-start gap-4 p-6">
+              <OutcomeIcon className="w-10 h-10 shrink-0" />
+              <div className="space-y-1">
+                <p className="text-xl font-bold">{outcomeInfo.title}</p>
+                {outcome.seat_label && (
+                  <p className="text-3xl font-bold">Seat {outcome.seat_label}</p>
+                )}
+                {outcome.email && <p className="text-sm">{outcome.email}</p>}
+                <p className="text-sm">{outcomeInfo.description}</p>
+                {outcome.result === "already_checked_in" && outcome.checked_in_at && (
+                  <p className="text-sm font-medium">
+                    First checked in at {format(new Date(outcome.checked_in_at), "HH:mm:ss")}
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {showId && (
+          <Tabs defaultValue="scan" onValueChange={(tab) => tab === "walk-ins" && fetchFreeSeats()}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="scan">Scan Ticket</TabsTrigger>
+              <TabsTrigger value="lookup">Look Up</TabsTrigger>
+              <TabsTrigger value="walk-ins">Walk-ins</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="scan">
+              <Card>
+                <CardContent className="p-6 space-y-3">
+                  <QrScanner onScan={handleScan} />
+                  <p className="text-center text-sm text-muted-foreground">
+                    Hold the guest's ticket QR code inside the frame.
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="lookup">
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleSearch();
+                    }}
+                  >
+                    <Input
+                      placeholder="Email or seat, e.g. C4"
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                    />
+                    <Button type="submit" className="gap-2">
+                      <Search className="w-4 h-4" /> Search
+                    </Button>
+                  </form>
+
+                  {searched && matches.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground">No bookings match.</p>
+                  ) : matches.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seat</TableHead>
+                          <TableHead>Guest</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {matches.map((m) => (
+                          <TableRow key={m.booking_id}>
+                            <TableCell className="font-bold">{m.seat_label}</TableCell>
+                            <TableCell>
+                              {m.email}
+                              {m.is_companion && <Badge variant="secondary" className="ml-2">Companion</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {m.checked_in_at ? (
+                                <span className="text-sm text-muted-foreground">
+                                  In at {format(new Date(m.checked_in_at), "HH:mm")}
+                                </span>
+                              ) : (
+                                <Button size="sm" disabled={busy} onClick={() => handleManualCheckIn(m.booking_id)}>
+                                  Check In
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="walk-ins">
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {freeSeats.length === 0
+                      ? "No seats are free right now. Seats released from no-shows appear here."
+                      : `${freeSeats.length} free seat${freeSeats.length === 1 ? "" : "s"}, including seats released from no-shows.`}
+                  </p>
+
+                  {freeSeats.length > 0 && (
+                    <form
+                      className="space-y-3"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleWalkIn();
+                      }}
+                    >
+                      <Select value={walkInSeatId ?? undefined} onValueChange={setWalkInSeatId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a seat" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {freeSeats.map((s) => (
+                            <SelectItem key={s.id} value={s.id}>
+                              {getSeatLabel(s.row_num, s.col_num)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="email"
+                        placeholder="Guest's email"
+                        value={walkInEmail}
+                        onChange={(e) => setWalkInEmail(e.target.value)}
+                      />
+                      <Button
+                        type="submit"
+                        className="w-full gap-2"
+                        disabled={busy || !walkInSeatId || !walkInEmail.trim()}
+                      >
+                        <UserPlus className="w-4 h-4" /> Seat and Check In
+                      </Button>
+                    </form>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckIn;
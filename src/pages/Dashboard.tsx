@@ -1,17 +1,211 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Ticket, Armchair, LogOut, Shield } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCountdown, formatCountdown } from "@/hooks/useCountdown";
+import { Ticket, Armchair, LogOut, Shield, CalendarDays, Repeat, Undo2, Users, Check, X, Hourglass, Clock, PauseCircle, Lock, Dices, Accessibility, QrCode, ScanLine, UserX, Send, ArrowLeftRight } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
+import { format } from "date-fns";
+import { BookingWindow, getBookingOpensAt, getBookingState } from "@/lib/bookingWindow";
+import { getSeatLabel } from "@/lib/seatLayout";
+import { isAccessibleStatus } from "@/lib/seatStatus";
+import { SWAP_FAILURES } from "@/lib/seatSwap";
+import type { Database, Enums } from "@/integrations/supabase/types";
+
+interface Show extends BookingWindow {
+  id: string;
+  title: string;
+  seat_layout_id: string;
+  change_cutoff_at: string | null;
+  max_seat_changes: number;
+  waitlist_claim_minutes: number;
+  allocation_mode: "first_come" | "lottery";
+  lottery_ran_at: string | null;
+  no_show_grace_minutes: number | null;
+}
+
+interface Booking {
+  id: string;
+  row_num: number;
+  col_num: number;
+  change_count: number;
+  group_id: string | null;
+  group_status: "pending" | "accepted" | null;
+  seat_status: Enums<"seat_status">;
+  // Second seat next to an accessible seat, booked for a companion
+  companion: { id: string; row_num: number; col_num: number } | null;
+}
+
+type SeatTransfer = Database["public"]["Functions"]["get_my_seat_transfers"]["Returns"][number];
+type SeatSwap = Database["public"]["Functions"]["get_my_seat_swaps"]["Returns"][number];
+
+const TRANSFER_FAILURES: Record<Exclude<Enums<"seat_transfer_result">, "ok">, string> = {
+  not_found: "This seat or offer is no longer open. It may have just been answered.",
+  transfer_closed: "Seats can no longer be handed over for this show.",
+  unknown_user: "No colleague with this email has signed in yet.",
+  self_transfer: "That's your own email address.",
+  already_booked: "This colleague already has a seat for the show.",
+  already_offered: "You've already offered this seat to someone.",
+  has_companion: "Release your companion seat before handing over your seat.",
+  not_eligible: "This accessible seat is kept for guests who need one.",
+  expired: "The time to accept this seat has run out.",
+};
+
+interface WaitlistEntry {
+  status: "waiting" | "offered" | "claimed" | "expired";
+  queue_position: number;
+  offered_seat_id: string | null;
+  offer_expires_at: string | null;
+  row_num: number | null;
+  col_num: number | null;
+}
+
+interface GroupMember {
+  booking_id: string;
+  email: string;
+  row_num: number;
+  col_num: number;
+  group_status: "pending" | "accepted";
+}
 
 const Dashboard = () => {
-  const { user, isAdmin, logout, loading: authLoading } = useAuth();
+  const { user, isAdmin, canCheckIn, logout, loading: authLoading } = useAuth();
   const navigate = useNavigate();
-  const [booking, setBooking] = useState<{ row_num: number; col_num: number } | null>(null);
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [shows, setShows] = useState<Show[]>([]);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
+  const [responding, setResponding] = useState(false);
+  const [tier, setTier] = useState<{ name: string; early_access_minutes: number } | null>(null);
+  const [freeSeatCount, setFreeSeatCount] = useState<number | null>(null);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const [waitlistBusy, setWaitlistBusy] = useState(false);
+  // Number of ranked preferences in the user's lottery application, if any
+  const [lotteryPreferenceCount, setLotteryPreferenceCount] = useState<number | null>(null);
+  const [needsAccessibleSeating, setNeedsAccessibleSeating] = useState(false);
+  const [accessibleSeatingRequested, setAccessibleSeatingRequested] = useState(false);
+  // Signed e-ticket code for the user's own seat
+  const [ticketCode, setTicketCode] = useState<string | null>(null);
+  // Open seat handovers the user made or received for the selected show
+  const [transfers, setTransfers] = useState<SeatTransfer[]>([]);
+  const [transferEmail, setTransferEmail] = useState("");
+  const [requestBusy, setRequestBusy] = useState(false);
+  // Open seat swap requests the user made or received
+  const [swaps, setSwaps] = useState<SeatSwap[]>([]);
+  // Seat taken back because the user had not checked in in time
+  const [releasedSeatLabel, setReleasedSeatLabel] = useState<string | null>(null);
+  // Bumped to refetch the booking after claiming an offered seat
+  const [bookingVersion, setBookingVersion] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [releasing, setReleasing] = useState(false);
+
+  // Default to the next upcoming show, falling back to the first one listed
+  const upcomingShow = shows.find((s) => new Date(s.starts_at) > new Date()) ?? shows[0];
+  const selectedShowId = searchParams.get("show") ?? upcomingShow?.id ?? null;
+  const selectedShow = shows.find((s) => s.id === selectedShowId) ?? null;
+  const offerSecondsLeft = useCountdown(
+    waitlistEntry?.status === "offered" ? waitlistEntry.offer_expires_at : null
+  );
+  // Booking opens early for the user's priority tier
+  const opensAt = selectedShow ? getBookingOpensAt(selectedShow, tier?.early_access_minutes) : null;
+  // Ticks until booking opens, re-rendering into the open state
+  const opensInSeconds = useCountdown(opensAt?.toISOString() ?? null);
+
+  const fetchWaitlist = async (showId: string) => {
+    const { data } = await supabase.rpc("get_my_waitlist_entry", { _show_id: showId });
+    setWaitlistEntry(data?.[0] ?? null);
+  };
+
+  const fetchTransfers = async (showId: string) => {
+    const { data } = await supabase.rpc("get_my_seat_transfers", { _show_id: showId });
+    setTransfers(data || []);
+  };
+
+  const fetchSwaps = async (showId: string) => {
+    const { data } = await supabase.rpc("get_my_seat_swaps", { _show_id: showId });
+    setSwaps(data || []);
+  };
+
+  const fetchLotteryApplication = async (showId: string, userId: string) => {
+    const { data } = await supabase
+      .from("lottery_applications")
+      .select("lottery_preferences(rank)")
+      .eq("show_id", showId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    setLotteryPreferenceCount(data ? data.lottery_preferences.length : null);
+  };
+
+  const fetchFreeSeatCount = async (show: Show, accessible: boolean) => {
+    const { count } = await supabase
+      .from("seats")
+      .select("id", { count: "exact", head: true })
+      .eq("seat_layout_id", show.seat_layout_id)
+      .eq("is_booked", false)
+      .in(
+        "status",
+        accessible
+          ? ["available", "wheelchair", "easy_access", "restricted_view"]
+          : ["available", "restricted_view"]
+      );
+
+    setFreeSeatCount(count ?? null);
+  };
+
+  useEffect(() => {
+    const fetchShows = async () => {
+      const { data, error } = await supabase
+        .from("shows")
+        .select("id, title, starts_at, seat_layout_id, change_cutoff_at, max_seat_changes, waitlist_claim_minutes, booking_opens_at, booking_closes_at, booking_paused, allocation_mode, lottery_ran_at, no_show_grace_minutes")
+        .order("starts_at");
+
+      if (error) {
+        console.error(error);
+        setLoading(false);
+        return;
+      }
+
+      setShows(data || []);
+      if (!data?.length) setLoading(false);
+    };
+
+    const fetchTier = async () => {
+      const { data } = await supabase.rpc("get_my_tier");
+      setTier(data?.[0] ?? null);
+    };
+
+    const fetchAccessibleSeating = async () => {
+      const [{ data: needed }, { data: requested }] = await Promise.all([
+        supabase.rpc("get_my_accessible_seating"),
+        supabase.rpc("get_my_accessible_seating_request"),
+      ]);
+      setNeedsAccessibleSeating(!!needed);
+      setAccessibleSeatingRequested(!!requested);
+    };
+
+    fetchShows();
+    fetchTier();
+    fetchAccessibleSeating();
+  }, []);
 
   useEffect(() => {
     if (!user) {
@@ -19,12 +213,26 @@ const Dashboard = () => {
       return;
     }
 
+    if (!selectedShowId) return;
+
     const fetchBooking = async () => {
+      setLoading(true);
+      setBooking(null);
+      setGroupMembers([]);
+      setTicketCode(null);
+      setReleasedSeatLabel(null);
+      setTransfers([]);
+      setSwaps([]);
+      setFreeSeatCount(null);
+      setLotteryPreferenceCount(null);
+
       try {
         const { data: bookingData, error } = await supabase
           .from("bookings")
-          .select("seat_id")
+          .select("id, seat_id, change_count, group_id, group_status")
           .eq("user_id", user.id)
+          .eq("show_id", selectedShowId)
+          .is("companion_for", null)
           .single();
 
         if (error && error.code !== "PGRST116") {
@@ -35,22 +243,62 @@ const Dashboard = () => {
 
         if (!bookingData) {
           setBooking(null);
+          const { data: noShowData } = await supabase
+            .from("no_shows")
+            .select("seat_label")
+            .eq("user_id", user.id)
+            .eq("show_id", selectedShowId)
+            .maybeSingle();
+          setReleasedSeatLabel(noShowData?.seat_label ?? null);
+          await fetchTransfers(selectedShowId);
+          await fetchWaitlist(selectedShowId);
+          const drawPending = selectedShow?.allocation_mode === "lottery" && !selectedShow.lottery_ran_at;
+          if (drawPending) await fetchLotteryApplication(selectedShowId, user.id);
+          else if (selectedShow) await fetchFreeSeatCount(selectedShow, needsAccessibleSeating);
           setLoading(false);
           return;
         }
 
-        const { data: seatData } = await supabase
-          .from("seats")
-          .select("row_num, col_num")
-          .eq("id", bookingData.seat_id)
-          .single();
+        setWaitlistEntry(null);
+
+        const [{ data: seatData }, { data: companionData }] = await Promise.all([
+          supabase
+            .from("seats")
+            .select("row_num, col_num, status")
+            .eq("id", bookingData.seat_id)
+            .single(),
+          supabase
+            .from("bookings")
+            .select("id, seats(row_num, col_num)")
+            .eq("companion_for", bookingData.id)
+            .maybeSingle(),
+        ]);
 
         if (seatData) {
           setBooking({
+            id: bookingData.id,
             row_num: seatData.row_num,
             col_num: seatData.col_num,
+            change_count: bookingData.change_count,
+            group_id: bookingData.group_id,
+            group_status: bookingData.group_status,
+            seat_status: seatData.status,
+            companion: companionData?.seats
+              ? { id: companionData.id, ...companionData.seats }
+              : null,
           });
         }
+
+        const { data: ticketsData } = await supabase.rpc("get_my_tickets", { _show_id: selectedShowId });
+        setTicketCode(ticketsData?.find((t) => t.booking_id === bookingData.id)?.code ?? null);
+        await Promise.all([fetchTransfers(selectedShowId), fetchSwaps(selectedShowId)]);
+
+        if (bookingData.group_id) {
+          const { data: membersData } = await supabase.rpc("get_group_members", {
+            _group_id: bookingData.group_id,
+          });
+          setGroupMembers(membersData || []);
+        }
       } catch (err) {
         console.error(err);
       }
@@ -59,7 +307,63 @@ const Dashboard = () => {
     };
 
     fetchBooking();
-  }, [user]);
+  }, [user, selectedShowId, selectedShow, bookingVersion, needsAccessibleSeating]);
+
+  // Offers are made server-side when a seat frees up
+  useEffect(() => {
+    if (!user || !selectedShowId) return;
+
+    const channel = supabase
+      .channel(`waitlist:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "waitlist_entries", filter: `user_id=eq.${user.id}` },
+        () => fetchWaitlist(selectedShowId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, selectedShowId]);
+
+  // Handovers and swaps are answered from the other person's dashboard; an accepted one moves the booking
+  useEffect(() => {
+    if (!user || !selectedShowId) return;
+
+    const channel = supabase
+      .channel(`seat-requests:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seat_transfers", filter: `from_user_id=eq.${user.id}` },
+        () => setBookingVersion((v) => v + 1)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seat_transfers", filter: `to_user_id=eq.${user.id}` },
+        () => setBookingVersion((v) => v + 1)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seat_swaps", filter: `from_user_id=eq.${user.id}` },
+        () => setBookingVersion((v) => v + 1)
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "seat_swaps", filter: `to_user_id=eq.${user.id}` },
+        () => setBookingVersion((v) => v + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, selectedShowId]);
+
+  // An unclaimed offer has run out and moved on
+  useEffect(() => {
+    if (offerSecondsLeft === 0 && selectedShowId) fetchWaitlist(selectedShowId);
+  }, [offerSecondsLeft, selectedShowId]);
 
   if (authLoading) {
     return (
@@ -69,8 +373,331 @@ const Dashboard = () => {
     );
   }
 
-  const getSeatLabel = (row: number, col: number) =>
-    `${String.fromCharCode(64 + col)}${row}`;
+  const changeCutoff = selectedShow
+    ? new Date(selectedShow.change_cutoff_at ?? selectedShow.starts_at)
+    : null;
+  const changesOpen = !!changeCutoff && new Date() < changeCutoff;
+  const changesLeft = booking && selectedShow
+    ? Math.max(0, selectedShow.max_seat_changes - booking.change_count)
+    : 0;
+
+  const handleReleaseSeat = async () => {
+    if (!booking) return;
+
+    setReleasing(true);
+    const { data: result, error } = await supabase.rpc("release_booking", {
+      _booking_id: booking.id,
+    });
+    setReleasing(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Release Failed",
+        description:
+          result === "changes_closed"
+            ? "Bookings for this show can no longer be changed."
+            : error?.message ?? "We couldn't find your booking.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBooking(null);
+    setGroupMembers([]);
+    toast({ title: "Seat Released", description: "Your seat is available to others again." });
+  };
+
+  const handleReleaseCompanion = async () => {
+    if (!booking?.companion) return;
+
+    setReleasing(true);
+    const { data: result, error } = await supabase.rpc("release_booking", {
+      _booking_id: booking.companion.id,
+    });
+    setReleasing(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Release Failed",
+        description:
+          result === "changes_closed"
+            ? "Bookings for this show can no longer be changed."
+            : error?.message ?? "We couldn't find the companion seat.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBooking({ ...booking, companion: null });
+    toast({ title: "Companion Seat Released" });
+  };
+
+  const handleToggleAccessibleSeating = async (requested: boolean) => {
+    const { error } = await supabase.rpc("request_accessible_seating", { _requested: requested });
+
+    if (error) {
+      toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    // Asking leaves an existing grant as it is; withdrawing gives it up
+    setAccessibleSeatingRequested(requested && !needsAccessibleSeating);
+    if (!requested) setNeedsAccessibleSeating(false);
+    toast({
+      title: requested ? "Accessible Seating Requested ♿" : "Accessible Seating Off",
+      description: requested
+        ? "An admin will confirm it before wheelchair and step-free seats open to you."
+        : "Accessible seats are kept for guests who need them.",
+    });
+  };
+
+  const handleGroupResponse = async (accept: boolean) => {
+    if (!booking) return;
+
+    setResponding(true);
+    const { data: result, error } = await supabase.rpc("respond_to_group_booking", {
+      _booking_id: booking.id,
+      _accept: accept,
+    });
+    setResponding(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Response Failed",
+        description: error?.message ?? "This invitation is no longer open.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (accept) {
+      setBooking({ ...booking, group_status: "accepted" });
+      setGroupMembers((members) =>
+        members.map((m) => (m.booking_id === booking.id ? { ...m, group_status: "accepted" } : m))
+      );
+      // The e-ticket is only issued once the seat is accepted
+      const { data: ticketsData } = await supabase.rpc("get_my_tickets", { _show_id: selectedShowId! });
+      setTicketCode(ticketsData?.find((t) => t.booking_id === booking.id)?.code ?? null);
+      toast({ title: "Seat Accepted 🎉", description: "Enjoy the show with your group!" });
+    } else {
+      setBooking(null);
+      setGroupMembers([]);
+      toast({ title: "Seat Declined", description: "The seat is available to others again." });
+    }
+  };
+
+  const handleOfferTransfer = async () => {
+    if (!booking || !transferEmail.trim()) return;
+
+    setRequestBusy(true);
+    const { data: result, error } = await supabase.rpc("offer_seat_transfer", {
+      _booking_id: booking.id,
+      _email: transferEmail,
+    });
+    setRequestBusy(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Couldn't Offer Seat",
+        description: result ? TRANSFER_FAILURES[result] : error?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTransferEmail("");
+    await fetchTransfers(selectedShowId!);
+    toast({ title: "Seat Offered 📨", description: "Your seat stays yours until your colleague accepts." });
+  };
+
+  const handleCancelTransfer = async (transferId: string) => {
+    setRequestBusy(true);
+    const { data: result, error } = await supabase.rpc("cancel_seat_transfer", { _transfer_id: transferId });
+    setRequestBusy(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Couldn't Withdraw Offer",
+        description: result ? TRANSFER_FAILURES[result] : error?.message,
+        variant: "destructive",
+      });
+      // Your colleague may have accepted in the meantime, taking the seat with it
+      setBookingVersion((v) => v + 1);
+      return;
+    }
+
+    await fetchTransfers(selectedShowId!);
+    toast({ title: "Offer Withdrawn" });
+  };
+
+  const handleTransferResponse = async (transferId: string, accept: boolean) => {
+    setRequestBusy(true);
+    const { data: result, error } = await supabase.rpc("respond_to_seat_transfer", {
+      _transfer_id: transferId,
+      _accept: accept,
+    });
+    setRequestBusy(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Response Failed",
+        description: result ? TRANSFER_FAILURES[result] : error?.message,
+        variant: "destructive",
+      });
+      setBookingVersion((v) => v + 1);
+      return;
+    }
+
+    if (accept) {
+      toast({ title: "Seat Accepted 🎉", description: "The seat is now yours!" });
+      setBookingVersion((v) => v + 1);
+    } else {
+      setTransfers((prev) => prev.filter((t) => t.id !== transferId));
+      toast({ title: "Seat Declined" });
+    }
+  };
+
+  const handleSwapResponse = async (swapId: string, accept: boolean) => {
+    setRequestBusy(true);
+    const { data: result, error } = await supabase.rpc("respond_to_seat_swap", {
+      _swap_id: swapId,
+      _accept: accept,
+    });
+    setRequestBusy(false);
+
+    if (error || result !== "ok") {
+      toast(
+        result
+          ? { ...SWAP_FAILURES[result], variant: "destructive" }
+          : { title: "Response Failed", description: error?.message, variant: "destructive" }
+      );
+      setBookingVersion((v) => v + 1);
+      return;
+    }
+
+    if (accept) {
+      toast({ title: "Seats Swapped 🔄", description: "Your new ticket is ready." });
+      setBookingVersion((v) => v + 1);
+    } else {
+      setSwaps((prev) => prev.filter((w) => w.id !== swapId));
+      toast({ title: "Swap Declined" });
+    }
+  };
+
+  const handleCancelSwap = async (swapId: string) => {
+    setRequestBusy(true);
+    const { data: result, error } = await supabase.rpc("cancel_seat_swap", { _swap_id: swapId });
+    setRequestBusy(false);
+
+    if (error || result !== "ok") {
+      toast(
+        result
+          ? { ...SWAP_FAILURES[result], variant: "destructive" }
+          : { title: "Couldn't Withdraw Request", description: error?.message, variant: "destructive" }
+      );
+      // The swap may have been accepted in the meantime, moving the user to the other seat
+      setBookingVersion((v) => v + 1);
+      return;
+    }
+
+    setSwaps((prev) => prev.filter((w) => w.id !== swapId));
+    toast({ title: "Swap Request Withdrawn" });
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!selectedShow) return;
+
+    setWaitlistBusy(true);
+    const { data: result, error } = await supabase.rpc("join_waitlist", { _show_id: selectedShow.id });
+    setWaitlistBusy(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Couldn't Join Waitlist",
+        description:
+          result === "seats_available"
+            ? "A seat has just become free, go ahead and book it!"
+            : result === "already_waiting"
+            ? "You are already on the waitlist."
+            : result === "already_booked"
+            ? "You already have a seat for this show."
+            : result === "booking_closed"
+            ? "Seats can no longer be booked for this show."
+            : error?.message,
+        variant: "destructive",
+      });
+      if (result === "seats_available") fetchFreeSeatCount(selectedShow, needsAccessibleSeating);
+      return;
+    }
+
+    await fetchWaitlist(selectedShow.id);
+    toast({ title: "You're on the Waitlist ⏳", description: "We'll offer you a seat as soon as one frees up." });
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!selectedShow) return;
+
+    setWaitlistBusy(true);
+    const { error } = await supabase.rpc("leave_waitlist", { _show_id: selectedShow.id });
+    setWaitlistBusy(false);
+
+    if (error) {
+      toast({ title: "Couldn't Leave Waitlist", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setWaitlistEntry(null);
+    toast({ title: "Left the Waitlist" });
+  };
+
+  const handleClaimOffer = async () => {
+    if (!waitlistEntry?.offered_seat_id) return;
+
+    setWaitlistBusy(true);
+    const { data: result, error } = await supabase.rpc("book_seat", {
+      _seat_id: waitlistEntry.offered_seat_id,
+    });
+    setWaitlistBusy(false);
+
+    if (error || result !== "ok") {
+      toast({
+        title: "Claim Failed",
+        description: error?.message ?? "This offer is no longer available.",
+        variant: "destructive",
+      });
+      if (selectedShowId) fetchWaitlist(selectedShowId);
+      return;
+    }
+
+    toast({ title: "Seat Frozen! 🎉", description: "The offered seat is now yours!" });
+    setBookingVersion((v) => v + 1);
+  };
+
+  const handleWithdrawLottery = async () => {
+    if (!selectedShow) return;
+
+    setWaitlistBusy(true);
+    const { error } = await supabase.rpc("withdraw_lottery_application", { _show_id: selectedShow.id });
+    setWaitlistBusy(false);
+
+    if (error) {
+      toast({ title: "Couldn't Withdraw Application", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setLotteryPreferenceCount(null);
+    toast({ title: "Application Withdrawn" });
+  };
+
+  const pendingInvite = booking?.group_status === "pending";
+  const outgoingTransfer = transfers.find((t) => !t.is_incoming) ?? null;
+  const incomingTransfer = transfers.find((t) => t.is_incoming) ?? null;
+  const outgoingSwap = swaps.find((w) => !w.is_incoming) ?? null;
+  const incomingSwaps = swaps.filter((w) => w.is_incoming);
+  const transfersOpen = !!selectedShow && new Date() < new Date(selectedShow.starts_at);
+  // Once drawn, the seats left over are booked first come, first served
+  const isLottery = selectedShow?.allocation_mode === "lottery" && !selectedShow.lottery_ran_at;
+  const bookingState = selectedShow ? getBookingState(selectedShow, tier?.early_access_minutes) : null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary to-accent/30 p-6 md:p-10">
@@ -82,29 +709,68 @@ const Dashboard = () => {
             PranSpanda Theatre
           </h1>
 
-          <p className="text-xl md:text-2xl font-semibold text-foreground">
-            Doraemon : Nobita's Dorabian Nights
-          </p>
+          {selectedShow && (
+            <>
+              <p className="text-xl md:text-2xl font-semibold text-foreground">
+                {selectedShow.title}
+              </p>
+              <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                <CalendarDays className="w-4 h-4" />
+                {format(new Date(selectedShow.starts_at), "EEE d MMM yyyy, HH:mm")}
+              </p>
+            </>
+          )}
 
           <p className="text-sm text-muted-foreground">
             Welcome back, {user?.email}
           </p>
         </div>
 
-        {/* Admin Button */}
-        {isAdmin && (
-          <div className="flex justify-center">
+        {/* Admin and Usher Buttons */}
+        {canCheckIn && (
+          <div className="flex justify-center gap-3">
+            {isAdmin && (
+              <Button
+                variant="outline"
+                className="gap-2 shadow-md"
+                onClick={() => navigate("/admin")}
+              >
+                <Shield className="w-4 h-4" />
+                Admin Panel
+              </Button>
+            )}
             <Button
               variant="outline"
               className="gap-2 shadow-md"
-              onClick={() => navigate("/admin")}
+              onClick={() => navigate("/checkin")}
             >
-              <Shield className="w-4 h-4" />
-              Admin Panel
+              <ScanLine className="w-4 h-4" />
+              Check-in
             </Button>
           </div>
         )}
 
+        {/* Show Picker */}
+        {shows.length > 1 && (
+          <div className="flex justify-center">
+            <Select
+              value={selectedShowId ?? undefined}
+              onValueChange={(id) => setSearchParams({ show: id })}
+            >
+              <SelectTrigger className="w-full max-w-sm">
+                <SelectValue placeholder="Select a show" />
+              </SelectTrigger>
+              <SelectContent>
+                {shows.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.title} · {format(new Date(s.starts_at), "d MMM, HH:mm")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Booking Card */}
         <Card className="border-2 border-primary/20 shadow-xl rounded-2xl backdrop-blur-sm">
           <CardHeader>
@@ -117,42 +783,514 @@ const Dashboard = () => {
           <CardContent className="text-center space-y-6">
             {loading ? (
               <p className="text-muted-foreground">Loading your status...</p>
+            ) : !selectedShow ? (
+              <p className="text-muted-foreground">No shows are scheduled yet.</p>
             ) : booking ? (
               <>
-                <div className="inline-flex items-center justify-center w-28 h-28 bg-primary rounded-3xl shadow-lg">
-                  <span className="text-4xl font-bold text-primary-foreground">
-                    {getSeatLabel(booking.row_num, booking.col_num)}
-                  </span>
+                <div className="flex items-center justify-center gap-6">
+                  <div className="inline-flex items-center justify-center w-28 h-28 bg-primary rounded-3xl shadow-lg">
+                    <span className="text-4xl font-bold text-primary-foreground">
+                      {getSeatLabel(booking.row_num, booking.col_num)}
+                    </span>
+                  </div>
+                  {ticketCode && (
+                    <div className="p-2 bg-white rounded-xl shadow-lg">
+                      <QRCodeSVG value={ticketCode} size={96} level="M" />
+                    </div>
+                  )}
                 </div>
 
+                {ticketCode && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => navigate(`/ticket/${selectedShow.id}`)}
+                  >
+                    <QrCode className="w-4 h-4" />
+                    View & Print Ticket
+                  </Button>
+                )}
+
                 <div className="space-y-2">
-                  <Badge className="px-4 py-1 text-sm bg-green-500 text-white">
-                    Seat Frozen
-                  </Badge>
-                  <p className="text-muted-foreground text-sm">
-                    Contact admin if you need to change your seat.
-                  </p>
+                  {pendingInvite ? (
+                    <>
+                      <Badge className="px-4 py-1 text-sm bg-amber-500 text-white">
+                        Group Invitation
+                      </Badge>
+                      <p className="text-muted-foreground text-sm">
+                        A colleague booked this seat for you with their group.
+                      </p>
+                    </>
+                  ) : (
+                    <Badge className="px-4 py-1 text-sm bg-green-500 text-white">
+                      Seat Frozen
+                    </Badge>
+                  )}
+                  {pendingInvite ? null : changesOpen ? (
+                    <p className="text-muted-foreground text-sm">
+                      You can change your seat {changesLeft} more time{changesLeft === 1 ? "" : "s"} until{" "}
+                      {format(changeCutoff, "EEE d MMM, HH:mm")}.
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground text-sm">
+                      Contact admin if you need to change your seat.
+                    </p>
+                  )}
                 </div>
+
+                {pendingInvite && (
+                  <div className="flex justify-center gap-3">
+                    <Button className="gap-2" disabled={responding} onClick={() => handleGroupResponse(true)}>
+                      <Check className="w-4 h-4" />
+                      Accept Seat
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" className="gap-2 text-destructive" disabled={responding}>
+                          <X className="w-4 h-4" />
+                          Decline
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Decline This Seat?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Seat <strong>{getSeatLabel(booking.row_num, booking.col_num)}</strong> will
+                            become available to everyone else and you can book your own seat.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep It</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleGroupResponse(false)}>
+                            Yes, Decline
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+
+                {groupMembers.length > 0 && (
+                  <div className="space-y-2 text-left max-w-sm mx-auto">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      Your group
+                    </p>
+                    {groupMembers.map((m) => (
+                      <div key={m.booking_id} className="flex items-center justify-between text-sm">
+                        <span>
+                          <strong>{getSeatLabel(m.row_num, m.col_num)}</strong> · {m.email}
+                        </span>
+                        <Badge variant={m.group_status === "accepted" ? "secondary" : "outline"}>
+                          {m.group_status === "accepted" ? "Accepted" : "Pending"}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {!pendingInvite && isAccessibleStatus(booking.seat_status) && (
+                  <div className="space-y-2 max-w-sm mx-auto">
+                    <p className="text-sm font-medium flex items-center justify-center gap-2">
+                      <Accessibility className="w-4 h-4" />
+                      Companion seat
+                    </p>
+                    {booking.companion ? (
+                      <div className="flex items-center justify-center gap-3 text-sm">
+                        <strong>{getSeatLabel(booking.companion.row_num, booking.companion.col_num)}</strong>
+                        {changesOpen && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-destructive"
+                            disabled={releasing}
+                            onClick={handleReleaseCompanion}
+                          >
+                            Release
+                          </Button>
+                        )}
+                      </div>
+                    ) : changesOpen && needsAccessibleSeating ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/book/${selectedShow.id}?companion=${booking.id}`)}
+                      >
+                        Book a Companion Seat
+                      </Button>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No companion seat booked.</p>
+                    )}
+                  </div>
+                )}
+
+                {changesOpen && !pendingInvite && booking.companion && (
+                  <p className="text-xs text-muted-foreground">
+                    Changing or releasing your seat also releases your companion seat.
+                  </p>
+                )}
+
+                {changesOpen && !pendingInvite && (
+                  <div className="flex justify-center gap-3">
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      disabled={changesLeft === 0}
+                      onClick={() => navigate(`/book/${selectedShow.id}?change=${booking.id}`)}
+                    >
+                      <Repeat className="w-4 h-4" />
+                      Change Seat
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" className="gap-2 text-destructive" disabled={releasing}>
+                          <Undo2 className="w-4 h-4" />
+                          Release Seat
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Release Your Seat?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Seat <strong>{getSeatLabel(booking.row_num, booking.col_num)}</strong> will
+                            become available to everyone else.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Keep It</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleReleaseSeat}>
+                            Yes, Release It
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+
+                {changesOpen && !pendingInvite && (incomingSwaps.length > 0 || outgoingSwap) && (
+                  <div className="space-y-3 max-w-sm mx-auto">
+                    <p className="text-sm font-medium flex items-center justify-center gap-2">
+                      <ArrowLeftRight className="w-4 h-4" />
+                      Seat swaps
+                    </p>
+                    {incomingSwaps.map((w) => (
+                      <div key={w.id} className="space-y-2 text-sm">
+                        <p>
+                          <strong>{w.from_email}</strong> would like to swap their seat{" "}
+                          <strong>{w.from_seat_label}</strong> for your seat <strong>{w.to_seat_label}</strong>.
+                        </p>
+                        <div className="flex justify-center gap-2">
+                          <Button size="sm" disabled={requestBusy} onClick={() => handleSwapResponse(w.id, true)}>
+                            Accept Swap
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={requestBusy}
+                            onClick={() => handleSwapResponse(w.id, false)}
+                          >
+                            Decline
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                    {outgoingSwap && (
+                      <div className="space-y-2 text-sm">
+                        <p className="text-muted-foreground">
+                          You asked to swap your seat for <strong>{outgoingSwap.to_seat_label}</strong>.
+                          Waiting for an answer.
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={requestBusy}
+                          onClick={() => handleCancelSwap(outgoingSwap.id)}
+                        >
+                          Withdraw Request
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {transfersOpen && !pendingInvite && (
+                  <div className="space-y-2 max-w-sm mx-auto">
+                    <p className="text-sm font-medium flex items-center justify-center gap-2">
+                      <Send className="w-4 h-4" />
+                      Can't make it? Give your seat to a colleague
+                    </p>
+                    {outgoingTransfer ? (
+                      <div className="space-y-2 text-sm">
+                        <p className="text-muted-foreground">
+                          Offered to <strong>{outgoingTransfer.to_email}</strong> until{" "}
+                          {format(new Date(outgoingTransfer.expires_at), "EEE d MMM, HH:mm")}.
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={requestBusy}
+                          onClick={() => handleCancelTransfer(outgoingTransfer.id)}
+                        >
+                          Withdraw Offer
+                        </Button>
+                      </div>
+                    ) : booking.companion ? (
+                      <p className="text-sm text-muted-foreground">
+                        Release your companion seat before handing over your seat.
+                      </p>
+                    ) : (
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleOfferTransfer();
+                        }}
+                      >
+                        <Input
+                          type="email"
+                          placeholder="Colleague's email"
+                          aria-label="Colleague's email"
+                          value={transferEmail}
+                          onChange={(e) => setTransferEmail(e.target.value)}
+                        />
+                        <Button type="submit" variant="outline" disabled={requestBusy || !transferEmail.trim()}>
+                          Offer Seat
+                        </Button>
+                      </form>
+                    )}
+                  </div>
+                )}
               </>
+            ) : incomingTransfer ? (
+              <div className="space-y-4">
+                <div className="inline-flex items-center justify-center w-28 h-28 bg-amber-400 rounded-3xl shadow-lg">
+                  <span className="text-4xl font-bold text-white">{incomingTransfer.seat_label}</span>
+                </div>
+                <p className="text-lg">
+                  <strong>{incomingTransfer.from_email}</strong> wants to give you their seat.
+                </p>
+                <p className="text-sm text-amber-600 font-medium">
+                  Accept by {format(new Date(incomingTransfer.expires_at), "EEE d MMM, HH:mm")} or the offer lapses.
+                </p>
+                <div className="flex justify-center gap-3">
+                  <Button
+                    className="gap-2"
+                    disabled={requestBusy}
+                    onClick={() => handleTransferResponse(incomingTransfer.id, true)}
+                  >
+                    <Check className="w-4 h-4" />
+                    Accept Seat
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="gap-2"
+                    disabled={requestBusy}
+                    onClick={() => handleTransferResponse(incomingTransfer.id, false)}
+                  >
+                    <X className="w-4 h-4" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ) : waitlistEntry?.status === "offered" && waitlistEntry.row_num && waitlistEntry.col_num ? (
+              <div className="space-y-4">
+                <div className="inline-flex items-center justify-center w-28 h-28 bg-amber-400 rounded-3xl shadow-lg">
+                  <span className="text-4xl font-bold text-white">
+                    {getSeatLabel(waitlistEntry.row_num, waitlistEntry.col_num)}
+                  </span>
+                </div>
+                <p className="text-lg">A seat has freed up for you!</p>
+                {offerSecondsLeft !== null && (
+                  <p className="text-sm text-amber-600 font-medium">
+                    Claim it within {formatCountdown(offerSecondsLeft)} or it goes to the next person.
+                  </p>
+                )}
+                <div className="flex justify-center gap-3">
+                  <Button className="gap-2" disabled={waitlistBusy} onClick={handleClaimOffer}>
+                    <Check className="w-4 h-4" />
+                    Claim Seat
+                  </Button>
+                  <Button variant="ghost" className="gap-2" disabled={waitlistBusy} onClick={handleLeaveWaitlist}>
+                    <X className="w-4 h-4" />
+                    Pass
+                  </Button>
+                </div>
+              </div>
+            ) : releasedSeatLabel ? (
+              <div className="space-y-4">
+                <UserX className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg text-muted-foreground">
+                  Seat <strong>{releasedSeatLabel}</strong> was released because you had not checked in
+                  {selectedShow.no_show_grace_minutes !== null &&
+                    ` within ${selectedShow.no_show_grace_minutes} minutes of the start`}.
+                </p>
+              </div>
+            ) : bookingState === "not_open" ? (
+              <div className="space-y-4">
+                <Clock className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg">
+                  Booking opens {format(opensAt!, "EEE d MMM, HH:mm")}
+                </p>
+                {tier && tier.early_access_minutes > 0 && (
+                  <Badge variant="secondary">Early access · {tier.name}</Badge>
+                )}
+                {opensInSeconds !== null && (
+                  <p className="text-3xl font-bold tabular-nums text-primary">
+                    {formatCountdown(opensInSeconds)}
+                  </p>
+                )}
+              </div>
+            ) : bookingState === "paused" ? (
+              <div className="space-y-4">
+                <PauseCircle className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg text-muted-foreground">
+                  Booking is paused for now. Please check back soon.
+                </p>
+              </div>
+            ) : bookingState === "closed" ? (
+              <div className="space-y-4">
+                <Lock className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg text-muted-foreground">
+                  {isLottery && lotteryPreferenceCount !== null
+                    ? "Applications are closed. Seats will be drawn soon."
+                    : "Booking closed"}
+                </p>
+              </div>
+            ) : isLottery ? (
+              <div className="space-y-4">
+                <Dices className="w-16 h-16 mx-auto text-muted-foreground" />
+                {lotteryPreferenceCount !== null ? (
+                  <>
+                    <p className="text-lg">
+                      You're in the lottery with <strong>{lotteryPreferenceCount}</strong> preference
+                      {lotteryPreferenceCount === 1 ? "" : "s"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Seats are drawn at random after applications close
+                      {selectedShow.booking_closes_at &&
+                        ` on ${format(new Date(selectedShow.booking_closes_at), "EEE d MMM, HH:mm")}`}.
+                    </p>
+                    <div className="flex justify-center gap-3">
+                      <Button variant="outline" className="gap-2" onClick={() => navigate(`/book/${selectedShow.id}`)}>
+                        <Repeat className="w-4 h-4" />
+                        Edit Preferences
+                      </Button>
+                      <Button variant="ghost" className="text-destructive" disabled={waitlistBusy} onClick={handleWithdrawLottery}>
+                        Withdraw
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-lg text-muted-foreground">
+                      Seats for this show are allocated by lottery
+                    </p>
+                    <Button
+                      size="lg"
+                      className="px-8 py-6 text-lg gap-2 shadow-lg"
+                      onClick={() => navigate(`/book/${selectedShow.id}`)}
+                    >
+                      <Dices className="w-5 h-5" />
+                      Enter the Lottery
+                    </Button>
+                  </>
+                )}
+              </div>
+            ) : waitlistEntry ? (
+              <div className="space-y-4">
+                <Hourglass className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg">
+                  You're <strong>#{waitlistEntry.queue_position}</strong> on the waitlist
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  When a seat frees up you'll have {selectedShow.waitlist_claim_minutes} minutes to claim it here.
+                </p>
+                <Button variant="ghost" disabled={waitlistBusy} onClick={handleLeaveWaitlist}>
+                  Leave Waitlist
+                </Button>
+              </div>
+            ) : freeSeatCount === 0 ? (
+              <div className="space-y-4">
+                <Armchair className="w-16 h-16 mx-auto text-muted-foreground" />
+                <p className="text-lg text-muted-foreground">
+                  The theatre is full
+                </p>
+                <Button
+                  size="lg"
+                  className="px-8 py-6 text-lg gap-2 shadow-lg"
+                  disabled={waitlistBusy}
+                  onClick={handleJoinWaitlist}
+                >
+                  <Hourglass className="w-5 h-5" />
+                  Join the Waitlist
+                </Button>
+              </div>
             ) : (
               <div className="space-y-4">
                 <Armchair className="w-16 h-16 mx-auto text-muted-foreground" />
                 <p className="text-lg text-muted-foreground">
                   You haven't booked a seat yet
                 </p>
+                {selectedShow.lottery_ran_at && (
+                  <p className="text-sm text-muted-foreground">
+                    The lottery has been drawn. Seats left over are first come, first served.
+                  </p>
+                )}
                 <Button
                   size="lg"
                   className="px-8 py-6 text-lg gap-2 shadow-lg"
-                  onClick={() => navigate("/book")}
+                  onClick={() => navigate(`/book/${selectedShow.id}`)}
                 >
                   <Ticket className="w-5 h-5" />
                   Book Your Seat
                 </Button>
+                <div>
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => navigate(`/book/${selectedShow.id}?group=1`)}
+                  >
+                    <Users className="w-4 h-4" />
+                    Book For a Group
+                  </Button>
+                </div>
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Accessibility */}
+        {user && (
+          <Card className="rounded-2xl">
+            <CardContent className="pt-6">
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1 h-4 w-4 accent-primary"
+                  checked={needsAccessibleSeating || accessibleSeatingRequested}
+                  onChange={(e) => handleToggleAccessibleSeating(e.target.checked)}
+                />
+                <span className="space-y-1">
+                  <span className="flex items-center gap-2 font-medium">
+                    <Accessibility className="w-4 h-4" />
+                    I need accessible seating
+                  </span>
+                  <span className="block text-sm text-muted-foreground">
+                    {needsAccessibleSeating
+                      ? "You can book wheelchair and step-free seats, plus a companion seat next to yours."
+                      : accessibleSeatingRequested
+                        ? "Waiting for an admin to confirm. Accessible seats open to you once they do."
+                        : "Ask for wheelchair and step-free seats, plus a companion seat next to yours. An admin confirms each request."}
+                  </span>
+                </span>
+              </label>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Footer */}
         <div className="flex justify-center">
           <Button
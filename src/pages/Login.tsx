@@ -7,6 +7,18 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { useToast } from "@/hooks/use-toast";
 import { Ticket, Sparkles } from "lucide-react";
 
+const LOGIN_FAILURE_TITLES: Record<string, string> = {
+  unknown_email: "Email Not Recognised",
+  wrong_uti: "Wrong UTI",
+  account_disabled: "Account Disabled",
+  locked: "Too Many Attempts",
+};
+
+const lockoutMessage = (lockedUntil: string) => {
+  const minutes = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 60000));
+  return `Too many attempts, try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+};
+
 const Login = () => {
   const [email, setEmail] = useState("");
   const [uti, setUti] = useState("");
@@ -31,12 +43,12 @@ const Login = () => {
     e.preventDefault();
     setIsLoading(true);
 
-    const { error } = await login(email, uti);
+    const { error, code, lockedUntil } = await login(email, uti);
 
     if (error) {
       toast({
-        title: "Login Failed",
-        description: error,
+        title: (code && LOGIN_FAILURE_TITLES[code]) || "Login Failed",
+        description: code === "locked" && lockedUntil ? lockoutMessage(lockedUntil) : error,
         variant: "destructive",
       });
     } else {
@@ -1,8 +1,28 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useNavigate } from "react-router-dom";
+import { useCountdown, formatCountdown } from "@/hooks/useCountdown";
+import { useSeatMapChannel } from "@/hooks/useSeatMapChannel";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import SeatGrid, { SeatCellProps } from "@/components/SeatGrid";
+import SeatLegend, { LegendItem } from "@/components/SeatLegend";
+import GroupAssignmentPanel, { Colleague } from "@/components/GroupAssignmentPanel";
+import LotteryPreferencesPanel, { LotteryPreference } from "@/components/LotteryPreferencesPanel";
+import { LayoutDefinition, getColumnLabel, getSeatLabel, getSectionForColumn, isContiguousRun, parseLayoutDefinition } from "@/lib/seatLayout";
+import { SeatPosition, findBestRun, findBestSeats } from "@/lib/seatRecommendation";
+import { BookingWindow, getBookingState } from "@/lib/bookingWindow";
+import { SWAP_FAILURES } from "@/lib/seatSwap";
+import {
+  SEAT_STATUS_CLASSES,
+  SEAT_STATUS_ICONS,
+  SEAT_STATUS_LABELS,
+  SeatStatus,
+  getSeatStatus,
+  isBookableStatusFor,
+} from "@/lib/seatStatus";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -14,92 +34,772 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Monitor } from "lucide-react";
+import { ArrowLeft, ArrowLeftRight, Check, Monitor, Sparkles, Timer, User } from "lucide-react";
 
 interface Seat {
   id: string;
   row_num: number;
   col_num: number;
   is_booked: boolean;
+  status: Enums<"seat_status">;
+  category: string | null;
+}
+
+interface SeatHold {
+  seat_id: string;
+  user_id: string;
+  expires_at: string;
 }
 
+interface Show extends BookingWindow {
+  id: string;
+  title: string;
+  seat_layout_id: string;
+  allocation_mode: Enums<"allocation_mode">;
+  lottery_ran_at: string | null;
+}
+
+type BookingFailure = Exclude<
+  | Enums<"booking_result">
+  | Enums<"booking_change_result">
+  | Enums<"group_booking_result">
+  | Enums<"companion_booking_result">,
+  "ok"
+>;
+
+const BOOKING_FAILURES: Record<BookingFailure, { title: string; description: string }> = {
+  seat_taken: {
+    title: "Seat Already Taken",
+    description: "Someone else grabbed this seat first. Please pick another one.",
+  },
+  already_booked: {
+    title: "Already Booked",
+    description: "You already have a seat for this show.",
+  },
+  booking_closed: {
+    title: "Booking Closed",
+    description: "Seats can no longer be booked for this show.",
+  },
+  booking_not_open: {
+    title: "Booking Not Open Yet",
+    description: "Booking for this show hasn't opened yet. Check the dashboard for the opening time.",
+  },
+  booking_paused: {
+    title: "Booking Paused",
+    description: "The organisers have paused booking for this show. Please try again later.",
+  },
+  seat_blocked: {
+    title: "Seat Not Available",
+    description: "This seat has been blocked by the organisers.",
+  },
+  changes_closed: {
+    title: "Changes Closed",
+    description: "Bookings for this show can no longer be changed.",
+  },
+  change_limit_reached: {
+    title: "No Changes Left",
+    description: "You have used all seat changes allowed for this show.",
+  },
+  not_found: {
+    title: "Booking Not Found",
+    description: "We couldn't find your booking for this show.",
+  },
+  not_adjacent: {
+    title: "Seats Not Together",
+    description: "Group seats must be next to each other in one row, without an aisle in between.",
+  },
+  invalid_group: {
+    title: "Check Your Group",
+    description: "Pick at least two seats and a different colleague for each one.",
+  },
+  lottery_only: {
+    title: "Seats Allocated by Lottery",
+    description: "Seats for this show are drawn by lottery. Enter your preferences from the dashboard.",
+  },
+  accessible_seat: {
+    title: "Accessible Seat",
+    description: "This seat is kept for guests who need accessible seating. You can ask for it on your dashboard.",
+  },
+  not_eligible: {
+    title: "No Companion Seat",
+    description: "Companion seats are for guests with accessible seating, next to their accessible seat.",
+  },
+};
+
+const LOTTERY_FAILURES: Record<
+  Exclude<Enums<"lottery_application_result">, "ok">,
+  { title: string; description: string }
+> = {
+  not_lottery: {
+    title: "No Lottery for This Show",
+    description: "Seats for this show are booked first come, first served.",
+  },
+  window_closed: {
+    title: "Applications Closed",
+    description: "The lottery for this show is no longer taking applications.",
+  },
+  already_booked: {
+    title: "Already Booked",
+    description: "You already have a seat for this show.",
+  },
+  invalid_preferences: {
+    title: "Check Your Preferences",
+    description: "Pick at least one seat or block, each only once.",
+  },
+};
+
+// Group bookings fail for the whole group, so some messages read differently
+const GROUP_BOOKING_FAILURES: Partial<Record<BookingFailure, { title: string; description: string }>> = {
+  seat_taken: {
+    title: "Seats Already Taken",
+    description: "One of the seats was taken a moment ago. Please pick your seats again.",
+  },
+  already_booked: {
+    title: "Colleague Already Booked",
+    description: "Someone in your group already has a seat for this show.",
+  },
+};
+
+// Results that mean the user has nothing left to do on this page
+const LEAVE_ON: string[] = [
+  "already_booked",
+  "booking_closed",
+  "booking_not_open",
+  "booking_paused",
+  "lottery_only",
+  "not_eligible",
+  "changes_closed",
+  "change_limit_reached",
+  "not_found",
+];
+
 const SeatBooking = () => {
   const { user } = useAuth();
+  const userId = user?.id;
+  const { showId } = useParams<{ showId: string }>();
+  const [searchParams] = useSearchParams();
+  const changeBookingId = searchParams.get("change");
+  // Booking whose accessible seat gets a companion seat next to it
+  const companionForId = searchParams.get("companion");
+  const existingBookingId = changeBookingId ?? companionForId;
+  const groupMode = searchParams.get("group") === "1";
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const [seats, setSeats] = useState<Seat[]>([]);
+  const [holds, setHolds] = useState<SeatHold[]>([]);
   const [selectedSeat, setSelectedSeat] = useState<Seat | null>(null);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [holding, setHolding] = useState(false);
   const [showConfirm, setShowConfirm] = useState(false);
   const [loading, setLoading] = useState(true);
   const [booking, setBooking] = useState(false);
-  const [layout, setLayout] = useState<{ total_rows: number; total_columns: number } | null>(null);
+  const [show, setShow] = useState<Show | null>(null);
+  const [layout, setLayout] = useState<{ total_rows: number; definition: LayoutDefinition } | null>(null);
+  const [currentSeatId, setCurrentSeatId] = useState<string | null>(null);
+  const [groupSeats, setGroupSeats] = useState<Seat[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [colleagues, setColleagues] = useState<Colleague[]>([]);
+  const [showGroupConfirm, setShowGroupConfirm] = useState(false);
+  const [groupSize, setGroupSize] = useState("2");
+  const [suggestedSeatIds, setSuggestedSeatIds] = useState<string[]>([]);
+  const [lotteryPreferences, setLotteryPreferences] = useState<LotteryPreference[]>([]);
+  const [lotterySubmitted, setLotterySubmitted] = useState(false);
+  const [needsAccessibleSeating, setNeedsAccessibleSeating] = useState(false);
+  // Booked seat whose holder the user is about to ask for a swap
+  const [swapSeat, setSwapSeat] = useState<Seat | null>(null);
+  // Read out by screen readers when seats change under the user
+  const [announcement, setAnnouncement] = useState("");
+
+  // Seat currently held by this user, kept in a ref so unmount can release it
+  const heldSeatId = useRef<string | null>(null);
+  const holdSecondsLeft = useCountdown(holdExpiresAt);
+
+  // Lottery shows take ranked preferences instead of bookings; seat changes work as usual
+  // Once drawn, the seats left over are booked first come, first served
+  const lotteryMode = show?.allocation_mode === "lottery" && !show.lottery_ran_at && !existingBookingId;
+
+  const backToDashboard = () => navigate(`/dashboard?show=${showId}`);
+
+  const fetchSeats = async (layoutId: string) => {
+    const { data: seatsData } = await supabase
+      .from("seats")
+      .select("id, row_num, col_num, is_booked, status, category")
+      .eq("seat_layout_id", layoutId)
+      .order("row_num")
+      .order("col_num");
+
+    setSeats(seatsData || []);
+  };
+
+  const fetchHolds = async (id: string) => {
+    const { data: holdsData } = await supabase
+      .from("seat_holds")
+      .select("seat_id, user_id, expires_at")
+      .eq("show_id", id)
+      .gt("expires_at", new Date().toISOString());
+
+    setHolds(holdsData || []);
+  };
+
+  const fetchLotteryApplication = async (id: string, userId: string) => {
+    const { data } = await supabase
+      .from("lottery_applications")
+      .select("lottery_preferences(rank, seat_id, section_index, seats(row_num, col_num))")
+      .eq("show_id", id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    setLotterySubmitted(!!data);
+    setLotteryPreferences(
+      (data?.lottery_preferences ?? [])
+        .sort((a, b) => a.rank - b.rank)
+        .map((p) =>
+          p.seat_id && p.seats
+            ? { seat_id: p.seat_id, row_num: p.seats.row_num, col_num: p.seats.col_num }
+            : { section_index: p.section_index ?? 0 }
+        )
+    );
+  };
+
+  const fetchColleagues = async (id: string) => {
+    const { data } = await supabase.rpc("get_colleagues", { _show_id: id });
+    setColleagues(data || []);
+  };
+
+  const justBooked = useSeatMapChannel(show, {
+    onSeatChange: (payload) => {
+      if (payload.eventType === "UPDATE") {
+        const before = seats.find((s) => s.id === payload.new.id);
+        const label = getSeatLabel(payload.new.row_num, payload.new.col_num);
+        if (before && payload.new.is_booked !== before.is_booked) {
+          setAnnouncement(
+            payload.new.is_booked ? `Seat ${label} was just booked.` : `Seat ${label} is available again.`
+          );
+        } else if (before && payload.new.status !== before.status) {
+          setAnnouncement(`Seat ${label} is now ${SEAT_STATUS_LABELS[payload.new.status].toLowerCase()}.`);
+        }
+        setSeats((prev) =>
+          prev.map((s) =>
+            s.id === payload.new.id
+              ? {
+                  ...s,
+                  is_booked: payload.new.is_booked,
+                  status: payload.new.status,
+                  category: payload.new.category,
+                }
+              : s
+          )
+        );
+      } else if (show) {
+        fetchSeats(show.seat_layout_id);
+      }
+    },
+    onHoldChange: () => {
+      if (show) fetchHolds(show.id);
+    },
+  });
 
   useEffect(() => {
     const fetchData = async () => {
+      const { data: showData } = await supabase
+        .from("shows")
+        .select("id, title, seat_layout_id, starts_at, booking_opens_at, booking_closes_at, booking_paused, allocation_mode, lottery_ran_at")
+        .eq("id", showId)
+        .maybeSingle();
+
+      if (!showData) {
+        toast({
+          title: "Show Not Found",
+          description: "Please pick a show from your dashboard.",
+          variant: "destructive",
+        });
+        navigate("/dashboard");
+        return;
+      }
+
+      // Seat changes and companion seats have their own cutoff; new bookings need an open window
+      const [{ data: tierData }, { data: accessibleData }] = await Promise.all([
+        supabase.rpc("get_my_tier"),
+        supabase.rpc("get_my_accessible_seating"),
+      ]);
+      setNeedsAccessibleSeating(!!accessibleData);
+      const state = getBookingState(showData, tierData?.[0]?.early_access_minutes);
+      if (!existingBookingId && state !== "open") {
+        toast({
+          ...BOOKING_FAILURES[
+            state === "not_open" ? "booking_not_open" : state === "paused" ? "booking_paused" : "booking_closed"
+          ],
+          variant: "destructive",
+        });
+        navigate(`/dashboard?show=${showData.id}`);
+        return;
+      }
+
+      setShow(showData);
+
       const { data: layoutData } = await supabase
         .from("seat_layout")
-        .select("total_rows, total_columns")
+        .select("total_rows, definition")
+        .eq("id", showData.seat_layout_id)
         .single();
 
-      setLayout(layoutData);
+      setLayout(
+        layoutData && {
+          total_rows: layoutData.total_rows,
+          definition: parseLayoutDefinition(layoutData.definition),
+        }
+      );
 
-      const { data: seatsData } = await supabase
-        .from("seats")
-        .select("id, row_num, col_num, is_booked")
-        .order("row_num")
-        .order("col_num");
+      if (existingBookingId) {
+        const { data: bookingData } = await supabase
+          .from("bookings")
+          .select("seat_id")
+          .eq("id", existingBookingId)
+          .maybeSingle();
 
-      setSeats(seatsData || []);
+        setCurrentSeatId(bookingData?.seat_id ?? null);
+      }
+
+      await Promise.all([
+        fetchSeats(showData.seat_layout_id),
+        fetchHolds(showData.id),
+        showData.allocation_mode === "lottery" && !showData.lottery_ran_at && !existingBookingId
+          ? userId && fetchLotteryApplication(showData.id, userId)
+          : groupMode && fetchColleagues(showData.id),
+      ]);
       setLoading(false);
     };
 
     fetchData();
+  }, [showId, userId, existingBookingId, groupMode, navigate, toast]);
+
+  // Release the hold when the user navigates away
+  useEffect(() => {
+    return () => {
+      if (heldSeatId.current) {
+        supabase.rpc("release_seat_hold", { _seat_id: heldSeatId.current });
+      }
+    };
   }, []);
 
-  const getSeatLabel = (row: number, col: number) =>
-    `${String.fromCharCode(64 + col)}${row}`;
+  const releaseHold = async () => {
+    const seatId = heldSeatId.current;
+    heldSeatId.current = null;
+    setHoldExpiresAt(null);
+    setSelectedSeat(null);
+    if (seatId) {
+      await supabase.rpc("release_seat_hold", { _seat_id: seatId });
+    }
+  };
+
+  // Also re-checked when a booking attempt ends, in case the hold ran out during it
+  useEffect(() => {
+    if (holdSecondsLeft !== 0 || booking) return;
+
+    setShowConfirm(false);
+    releaseHold();
+    toast({
+      title: "Hold Expired ⏰",
+      description: "Your seat was released. Pick a seat again to continue.",
+    });
+  }, [holdSecondsLeft, booking, toast]);
+
+  // Someone else booked a seat picked for the group
+  useEffect(() => {
+    if (booking) return;
+
+    const taken = groupSeats.filter((g) => seats.find((s) => s.id === g.id)?.is_booked);
+    if (taken.length === 0) return;
+
+    setGroupSeats([]);
+    setAssignments({});
+    setShowGroupConfirm(false);
+    toast({
+      title: "Seat Just Taken 😕",
+      description: `Sorry, seat ${getSeatLabel(
+        taken[0].row_num,
+        taken[0].col_num
+      )} was booked by someone else a moment ago. Please pick your group's seats again.`,
+    });
+  }, [seats, booking, groupSeats, toast]);
+
+  // Someone else booked the seat we are confirming
+  useEffect(() => {
+    if (!showConfirm || booking || !selectedSeat) return;
+
+    const current = seats.find((s) => s.id === selectedSeat.id);
+    if (current && !current.is_booked) return;
 
-  const handleSeatClick = (seat: Seat) => {
-    if (seat.is_booked) return;
+    heldSeatId.current = null;
+    setShowConfirm(false);
+    setHoldExpiresAt(null);
+    setSelectedSeat(null);
+    toast({
+      title: "Seat Just Taken 😕",
+      description: `Sorry, seat ${getSeatLabel(
+        selectedSeat.row_num,
+        selectedSeat.col_num
+      )} was booked by someone else a moment ago. Please pick another seat.`,
+    });
+  }, [seats, showConfirm, booking, selectedSeat, toast]);
+
+  const isHeldByOther = (seat: Seat) =>
+    holds.some(
+      (h) =>
+        h.seat_id === seat.id &&
+        h.user_id !== user?.id &&
+        new Date(h.expires_at) > new Date()
+    );
+
+  // Companion seats must sit right next to the user's accessible seat
+  const isNextToCurrentSeat = (seat: Seat) => {
+    const current = seats.find((s) => s.id === currentSeatId);
+    return (
+      !!current &&
+      !!layout &&
+      isContiguousRun(layout.definition, [
+        { row: current.row_num, col: current.col_num },
+        { row: seat.row_num, col: seat.col_num },
+      ])
+    );
+  };
+
+  // When changing seats, a seat someone else booked can still be asked for in a swap
+  const canRequestSwap = (seat: Seat) =>
+    !!changeBookingId && seat.is_booked && seat.id !== currentSeatId;
+
+  const canPick = (seat: Seat) =>
+    !seat.is_booked &&
+    !isHeldByOther(seat) &&
+    isBookableStatusFor(seat.status, needsAccessibleSeating) &&
+    (!companionForId || isNextToCurrentSeat(seat));
+
+  // Seats that would break the row are ignored; picking elsewhere starts a new selection
+  const toggleGroupSeat = (seat: Seat) => {
+    if (!layout) return;
+
+    const selected = groupSeats.some((s) => s.id === seat.id);
+    const next = selected
+      ? groupSeats.filter((s) => s.id !== seat.id)
+      : [...groupSeats, seat];
+    const cells = next.map((s) => ({ row: s.row_num, col: s.col_num }));
+
+    if (next.length > 0 && !isContiguousRun(layout.definition, cells)) {
+      if (selected) return;
+      setGroupSeats([seat]);
+      setAssignments({});
+      setAnnouncement(`Started a new group selection at seat ${getSeatLabel(seat.row_num, seat.col_num)}.`);
+      return;
+    }
+
+    setGroupSeats(next.sort((a, b) => a.col_num - b.col_num));
+    setAnnouncement(
+      `Seat ${getSeatLabel(seat.row_num, seat.col_num)} ${selected ? "removed" : "selected"}, ${next.length} of your group's seats chosen.`
+    );
+    if (selected) {
+      setAssignments((a) => Object.fromEntries(Object.entries(a).filter(([id]) => id !== seat.id)));
+    }
+  };
+
+  const toggleLotterySeat = (seat: Seat) =>
+    setLotteryPreferences((prefs) =>
+      prefs.some((p) => "seat_id" in p && p.seat_id === seat.id)
+        ? prefs.filter((p) => !("seat_id" in p && p.seat_id === seat.id))
+        : [...prefs, { seat_id: seat.id, row_num: seat.row_num, col_num: seat.col_num }]
+    );
+
+  const handleSeatClick = async (seat: Seat) => {
+    if (canRequestSwap(seat)) {
+      setSwapSeat(seat);
+      return;
+    }
+
+    if (!canPick(seat) || holding || !show) return;
+
+    if (lotteryMode) {
+      const ranked = lotteryPreferences.some((p) => "seat_id" in p && p.seat_id === seat.id);
+      toggleLotterySeat(seat);
+      setAnnouncement(
+        `Seat ${getSeatLabel(seat.row_num, seat.col_num)} ${ranked ? "removed from" : "added to"} your preferences.`
+      );
+      return;
+    }
+
+    if (groupMode) {
+      toggleGroupSeat(seat);
+      return;
+    }
+
+    setHolding(true);
+    const { data: expiresAt, error } = await supabase.rpc("hold_seat", {
+      _seat_id: seat.id,
+    });
+    setHolding(false);
+
+    if (error || !expiresAt) {
+      toast({
+        title: "Seat Unavailable",
+        description: "Someone else has just booked or is holding this seat.",
+        variant: "destructive",
+      });
+      await Promise.all([fetchSeats(show.seat_layout_id), fetchHolds(show.id)]);
+      return;
+    }
+
+    heldSeatId.current = seat.id;
+    setHoldExpiresAt(expiresAt);
     setSelectedSeat(seat);
     setShowConfirm(true);
   };
 
+  const handleFindBest = () => {
+    if (!layout) return;
+
+    const freeSeats = seats.filter(
+      (s) => canPick(s) && s.id !== currentSeatId
+    );
+    const toSeat = (p: SeatPosition) =>
+      freeSeats.find((s) => s.row_num === p.row && s.col_num === p.col)!;
+    const positions = freeSeats.map((s) => ({ row: s.row_num, col: s.col_num }));
+
+    if (groupMode) {
+      const size = Math.max(2, parseInt(groupSize) || 2);
+      const run = findBestRun(layout.definition, layout.total_rows, positions, size);
+
+      if (!run) {
+        toast({
+          title: "No Seats Together",
+          description: `There are no ${size} free seats side by side right now. Try a smaller group.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const runSeats = run.map(toSeat);
+      setGroupSeats(runSeats);
+      setAssignments({});
+      setSuggestedSeatIds(runSeats.map((s) => s.id));
+      toast({
+        title: "Best Seats Found ✨",
+        description: `Seats ${runSeats
+          .map((s) => getSeatLabel(s.row_num, s.col_num))
+          .join(", ")} are picked for your group. Now choose who sits where.`,
+      });
+      return;
+    }
+
+    const best = findBestSeats(layout.definition, layout.total_rows, positions).map(toSeat);
+
+    if (best.length === 0) {
+      toast({
+        title: "No Free Seats",
+        description: "Every seat is booked or on hold right now.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSuggestedSeatIds(best.map((s) => s.id));
+    toast({
+      title: "Best Seats Found ✨",
+      description: `Top picks: ${best
+        .map((s) => getSeatLabel(s.row_num, s.col_num))
+        .join(", ")}. Click one to hold it.`,
+    });
+  };
+
+  const handleConfirmOpenChange = (open: boolean) => {
+    setShowConfirm(open);
+    if (!open && !booking) releaseHold();
+  };
+
   const handleConfirmBooking = async () => {
-    if (!selectedSeat || !user) return;
+    if (!selectedSeat || !user || !show) return;
 
     setBooking(true);
 
-    const { error } = await supabase.from("bookings").insert({
-      user_id: user.id,
-      seat_id: selectedSeat.id,
-    });
+    const { data: result, error } = changeBookingId
+      ? await supabase.rpc("change_booking_seat", {
+          _booking_id: changeBookingId,
+          _seat_id: selectedSeat.id,
+        })
+      : companionForId
+      ? await supabase.rpc("book_companion_seat", {
+          _booking_id: companionForId,
+          _seat_id: selectedSeat.id,
+        })
+      : await supabase.rpc("book_seat", { _seat_id: selectedSeat.id });
 
     if (error) {
       toast({
         title: "Booking Failed",
-        description:
-          error.message.includes("user_id")
-            ? "You already have a booking!"
-            : error.message,
+        description: error.message,
         variant: "destructive",
       });
+      await releaseHold();
+    } else if (result !== "ok") {
+      toast({ ...BOOKING_FAILURES[result], variant: "destructive" });
+      await releaseHold();
+
+      if (LEAVE_ON.includes(result)) {
+        backToDashboard();
+      } else {
+        await Promise.all([fetchSeats(show.seat_layout_id), fetchHolds(show.id)]);
+      }
     } else {
+      // The booking consumed the hold server-side
+      heldSeatId.current = null;
+      setHoldExpiresAt(null);
       toast({
-        title: "Seat Frozen! 🎉",
+        title: changeBookingId
+          ? "Seat Changed! 🎉"
+          : companionForId
+          ? "Companion Seat Booked! 🎉"
+          : "Seat Frozen! 🎉",
         description: `Seat ${getSeatLabel(
           selectedSeat.row_num,
           selectedSeat.col_num
         )} is now yours!`,
       });
-      navigate("/dashboard");
+      backToDashboard();
     }
 
     setBooking(false);
     setShowConfirm(false);
   };
 
+  const handleRequestSwap = async () => {
+    if (!swapSeat || !changeBookingId) return;
+
+    setBooking(true);
+    const { data: result, error } = await supabase.rpc("request_seat_swap", {
+      _booking_id: changeBookingId,
+      _seat_id: swapSeat.id,
+    });
+    setBooking(false);
+    setSwapSeat(null);
+
+    if (error) {
+      toast({ title: "Swap Request Failed", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    if (result !== "ok") {
+      toast({ ...SWAP_FAILURES[result], variant: "destructive" });
+      if (result === "changes_closed" || result === "not_found") backToDashboard();
+      return;
+    }
+
+    toast({
+      title: "Swap Requested 🔄",
+      description: `We've asked whoever holds seat ${getSeatLabel(
+        swapSeat.row_num,
+        swapSeat.col_num
+      )}. You keep your seat until they accept.`,
+    });
+    backToDashboard();
+  };
+
+  const handleConfirmGroupBooking = async () => {
+    if (!show) return;
+
+    setBooking(true);
+
+    const { data: result, error } = await supabase.rpc("book_group", {
+      _show_id: show.id,
+      _assignments: groupSeats.map((s) => ({ seat_id: s.id, user_id: assignments[s.id] })),
+    });
+
+    setBooking(false);
+    setShowGroupConfirm(false);
+
+    if (error) {
+      toast({
+        title: "Booking Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (result !== "ok") {
+      toast({
+        ...(GROUP_BOOKING_FAILURES[result] ?? BOOKING_FAILURES[result]),
+        variant: "destructive",
+      });
+
+      if (["booking_closed", "booking_not_open", "booking_paused"].includes(result)) {
+        backToDashboard();
+      } else {
+        setGroupSeats([]);
+        setAssignments({});
+        await Promise.all([fetchSeats(show.seat_layout_id), fetchColleagues(show.id)]);
+      }
+    } else {
+      toast({
+        title: "Group Booked! 🎉",
+        description: `${groupSeats.length} seats are frozen for your group. Colleagues can accept theirs from the dashboard.`,
+      });
+      backToDashboard();
+    }
+  };
+
+  const handleSubmitLottery = async () => {
+    if (!show) return;
+
+    setBooking(true);
+    const { data: result, error } = await supabase.rpc("submit_lottery_application", {
+      _show_id: show.id,
+      _preferences: lotteryPreferences.map((p) =>
+        "seat_id" in p ? { seat_id: p.seat_id } : { section_index: p.section_index }
+      ),
+    });
+    setBooking(false);
+
+    if (error) {
+      toast({
+        title: "Application Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else if (result !== "ok") {
+      toast({ ...LOTTERY_FAILURES[result], variant: "destructive" });
+      if (result !== "invalid_preferences") backToDashboard();
+    } else {
+      toast({
+        title: lotterySubmitted ? "Preferences Updated 🎲" : "You're in the Lottery! 🎲",
+        description: `${lotteryPreferences.length} preference${
+          lotteryPreferences.length === 1 ? "" : "s"
+        } saved. Seats are drawn after applications close.`,
+      });
+      backToDashboard();
+    }
+  };
+
+  const handleWithdrawLottery = async () => {
+    if (!show) return;
+
+    setBooking(true);
+    const { error } = await supabase.rpc("withdraw_lottery_application", { _show_id: show.id });
+    setBooking(false);
+
+    if (error) {
+      toast({ title: "Couldn't Withdraw Application", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Application Withdrawn" });
+    backToDashboard();
+  };
+
+  // Admin-set statuses only appear in the legend when the hall has them
+  const legendStatuses: SeatStatus[] = [
+    "available",
+    "booked",
+    "held",
+    ...(["wheelchair", "easy_access", "restricted_view", "vip_reserved", "blocked"] as const).filter((status) =>
+      seats.some((s) => s.status === status)
+    ),
+  ];
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -108,7 +808,7 @@ const SeatBooking = () => {
     );
   }
 
-  const rows = layout?.total_rows || 0;
+  const currentSeat = seats.find((s) => s.id === currentSeatId);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30 p-6">
@@ -116,10 +816,28 @@ const SeatBooking = () => {
 
         {/* Header */}
         <div className="flex items-center gap-4">
-          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+          <Button variant="ghost" onClick={backToDashboard}>
             <ArrowLeft className="w-4 h-4" /> Back
           </Button>
-          <h1 className="text-2xl font-bold">Select Your Seat</h1>
+          <div>
+            <h1 className="text-2xl font-bold">
+              {changeBookingId
+                ? "Change Your Seat"
+                : companionForId
+                ? "Pick a Companion Seat"
+                : lotteryMode
+                ? "Rank Your Preferred Seats"
+                : groupMode
+                ? "Select Seats For Your Group"
+                : "Select Your Seat"}
+            </h1>
+            <p className="text-sm text-muted-foreground">{show?.title}</p>
+            {changeBookingId && (
+              <p className="text-sm text-muted-foreground">
+                Want a seat that's taken? Select it to ask its holder for a swap.
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Stage */}
@@ -133,93 +851,195 @@ const SeatBooking = () => {
         </div>
 
         {/* Legend */}
-        <div className="flex justify-center gap-8 text-sm">
-          <div className="flex items-center gap-2">
-            <div className="w-5 h-5 bg-accent border rounded" />
-            Available
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-5 h-5 bg-primary border rounded" />
-            Selected
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-5 h-5 bg-destructive/40 border rounded" />
-            Booked
+        <SeatLegend statuses={legendStatuses}>
+          <LegendItem className="bg-primary text-primary-foreground border" label={lotteryMode ? "Your preference" : "Selected"} icon={Check} />
+          {currentSeatId && <LegendItem className="bg-primary/30 text-primary border-2 border-primary" label="Your seat" icon={User} />}
+          {suggestedSeatIds.length > 0 && (
+            <LegendItem className="bg-accent border ring-2 ring-yellow-400 ring-offset-1" label="Suggested" icon={Sparkles} />
+          )}
+        </SeatLegend>
+
+        {/* Recommendation */}
+        {!lotteryMode && !companionForId && (
+          <div className="flex justify-center items-center gap-3">
+            {groupMode && (
+              <>
+                <span className="text-sm text-muted-foreground">Seats needed</span>
+                <Input
+                  type="number"
+                  min={2}
+                  className="w-20"
+                  value={groupSize}
+                  onChange={(e) => setGroupSize(e.target.value)}
+                />
+              </>
+            )}
+            <Button variant="outline" className="gap-2" onClick={handleFindBest}>
+              <Sparkles className="w-4 h-4" />
+              {groupMode ? "Find the Best Seats Together" : "Find Me the Best Seat"}
+            </Button>
           </div>
-        </div>
+        )}
 
         {/* CENTERED SEAT GRID */}
-        <div className="flex justify-center">
-          <div className="space-y-3">
-
-            {Array.from({ length: rows }, (_, r) => {
-              const rowNum = r + 1;
-
-              return (
-                <div key={r} className="flex gap-8 items-center justify-center">
-
-                  {/* Row Number */}
-                  <div className="w-6 text-xs text-muted-foreground text-right">
-                    {rowNum}
-                  </div>
-
-                  {/* Seats */}
-                  <div className="flex gap-6">
-
-                    {/* Block A */}
-                    <div className="flex gap-1">
-                      {[1,2,3,4].map((col) =>
-                        renderSeat(rowNum, col)
-                      )}
-                    </div>
-
-                    {/* Block B */}
-                    <div className="flex gap-1">
-                      {[5,6,7,8,9,10,11,12].map((col) =>
-                        renderSeat(rowNum, col)
-                      )}
-                    </div>
-
-                    {/* Block C */}
-                    <div className="flex gap-1">
-                      {[13,14,15,16].map((col) =>
-                        renderSeat(rowNum, col)
-                      )}
-                    </div>
-
-                  </div>
-                </div>
-              );
-            })}
+        {layout && (
+          <div className="flex justify-center">
+            <SeatGrid
+              rows={layout.total_rows}
+              definition={layout.definition}
+              showRowNumbers
+              label={`Seats for ${show?.title ?? "this show"}. Use the arrow keys to move between seats.`}
+              renderSeat={renderSeat}
+            />
           </div>
+        )}
+
+        <div aria-live="polite" className="sr-only">
+          {announcement}
         </div>
+
+        {lotteryMode && layout && (
+          <LotteryPreferencesPanel
+            preferences={lotteryPreferences}
+            sections={layout.definition.sections}
+            submitted={lotterySubmitted}
+            busy={booking}
+            onChange={setLotteryPreferences}
+            onSubmit={handleSubmitLottery}
+            onWithdraw={handleWithdrawLottery}
+          />
+        )}
+
+        {groupMode && !lotteryMode && (
+          <GroupAssignmentPanel
+            seats={groupSeats}
+            colleagues={colleagues}
+            currentUserId={user?.id}
+            assignments={assignments}
+            booking={booking}
+            onAssign={(seatId, userId) => setAssignments((a) => ({ ...a, [seatId]: userId }))}
+            onClear={() => {
+              setGroupSeats([]);
+              setAssignments({});
+            }}
+            onBook={() => setShowGroupConfirm(true)}
+          />
+        )}
       </div>
 
+      {/* Group Confirm Dialog */}
+      <AlertDialog open={showGroupConfirm} onOpenChange={(open) => !booking && setShowGroupConfirm(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Freeze {groupSeats.length} Seats? 🎫</AlertDialogTitle>
+            <AlertDialogDescription>
+              Seats{" "}
+              <strong>
+                {groupSeats.map((s) => getSeatLabel(s.row_num, s.col_num)).join(", ")}
+              </strong>{" "}
+              will be booked together, or not at all if any of them is gone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={booking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmGroupBooking();
+              }}
+              disabled={booking}
+            >
+              {booking ? "Freezing..." : "Yes, Freeze Them!"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Swap Request Dialog */}
+      <AlertDialog open={!!swapSeat} onOpenChange={(open) => !open && !booking && setSwapSeat(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Ask for a Swap? 🔄</AlertDialogTitle>
+            <AlertDialogDescription>
+              We'll ask whoever holds seat{" "}
+              <strong>{swapSeat && getSeatLabel(swapSeat.row_num, swapSeat.col_num)}</strong> to swap it for
+              your seat{" "}
+              <strong>{currentSeat && getSeatLabel(currentSeat.row_num, currentSeat.col_num)}</strong>.
+              Both of you keep your seats until they accept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={booking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRequestSwap();
+              }}
+              disabled={booking}
+            >
+              {booking ? "Asking..." : "Yes, Ask Them"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Confirm Dialog */}
-      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+      <AlertDialog open={showConfirm} onOpenChange={handleConfirmOpenChange}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Freeze Seat Permanently? 🎫</AlertDialogTitle>
+            <AlertDialogTitle>
+              {changeBookingId
+                ? "Move To This Seat? 🔁"
+                : companionForId
+                ? "Book Companion Seat? 🤝"
+                : "Freeze Seat Permanently? 🎫"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              You are about to freeze seat{" "}
+              {changeBookingId
+                ? "You are about to move to seat"
+                : companionForId
+                ? "You are about to book the companion seat"
+                : "You are about to freeze seat"}{" "}
               <strong>
                 {selectedSeat &&
                   getSeatLabel(
                     selectedSeat.row_num,
                     selectedSeat.col_num
                   )}
-              </strong>.
+              </strong>
+              {selectedSeat?.category && <> ({selectedSeat.category})</>}.
             </AlertDialogDescription>
+            {selectedSeat?.status === "restricted_view" && (
+              <p className="text-sm text-orange-600">
+                This seat has a restricted view of the stage.
+              </p>
+            )}
+            {holdSecondsLeft !== null && (
+              <p className="flex items-center gap-2 text-sm font-medium text-amber-600">
+                <Timer className="w-4 h-4" />
+                Seat held for you for {formatCountdown(holdSecondsLeft)}
+              </p>
+            )}
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel disabled={booking}>
               Cancel
             </AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleConfirmBooking}
+              onClick={(e) => {
+                // Keep the dialog open until the booking settles
+                e.preventDefault();
+                handleConfirmBooking();
+              }}
               disabled={booking}
             >
-              {booking ? "Freezing..." : "Yes, Freeze It!"}
+              {booking
+                ? "Freezing..."
+                : changeBookingId
+                ? "Yes, Move Me!"
+                : companionForId
+                ? "Yes, Book It!"
+                : "Yes, Freeze It!"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -227,7 +1047,7 @@ const SeatBooking = () => {
     </div>
   );
 
-  function renderSeat(row: number, col: number) {
+  function renderSeat(row: number, col: number, cell: SeatCellProps) {
     const seat = seats.find(
       (s) => s.row_num === row && s.col_num === col
     );
@@ -235,24 +1055,72 @@ const SeatBooking = () => {
     if (!seat)
       return <div key={col} className="w-10 h-10" />;
 
-    const isSelected = selectedSeat?.id === seat.id;
-    const isBooked = seat.is_booked;
+    const isSelected = lotteryMode
+      ? lotteryPreferences.some((p) => "seat_id" in p && p.seat_id === seat.id)
+      : groupMode
+      ? groupSeats.some((s) => s.id === seat.id)
+      : selectedSeat?.id === seat.id;
+    const status = getSeatStatus(seat, isHeldByOther(seat));
+    const isBookable = canPick(seat);
+    const isSwappable = canRequestSwap(seat);
+    const isJustBooked = justBooked.includes(seat.id);
+    const isMine = seat.id === currentSeatId;
+    const isSuggested = suggestedSeatIds.includes(seat.id) && isBookable;
+    const StatusIcon = isMine
+      ? User
+      : isSelected && isBookable
+      ? Check
+      : isSwappable
+      ? ArrowLeftRight
+      : SEAT_STATUS_ICONS[status] ?? (isSuggested ? Sparkles : null);
+
+    // e.g. "Row 3, seat A, block A, available"
+    const description = [
+      `Row ${row}`,
+      `seat ${getColumnLabel(col)}`,
+      layout && `block ${getSectionForColumn(layout.definition, col)?.name}`,
+      isMine ? "your seat" : SEAT_STATUS_LABELS[status].toLowerCase(),
+      seat.category,
+      isSelected && isBookable && "selected",
+      isSuggested && "suggested",
+      isSwappable && "select to ask for a swap",
+      !isBookable && !isMine && !["booked", "held", "blocked"].includes(status) && "not available to you",
+    ]
+      .filter(Boolean)
+      .join(", ");
 
     return (
       <button
         key={col}
         onClick={() => handleSeatClick(seat)}
-        disabled={isBooked}
-        className={`w-10 h-10 rounded-lg text-xs font-bold transition-all duration-200 
+        // Unavailable seats stay focusable so the grid can be explored by keyboard
+        aria-disabled={!isBookable && !isSwappable}
+        aria-label={description}
+        tabIndex={cell.tabIndex}
+        onFocus={cell.onFocus}
+        title={[SEAT_STATUS_LABELS[status], seat.category].filter(Boolean).join(" · ")}
+        className={`relative w-10 h-10 rounded-lg text-xs font-bold transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2
           ${
-            isBooked
-              ? "bg-destructive/30 text-destructive/60 border-2 border-destructive/20 cursor-not-allowed"
-              : isSelected
+            isMine
+              ? "bg-primary/30 text-primary border-2 border-primary cursor-not-allowed"
+              : isSelected && isBookable
               ? "bg-primary text-primary-foreground scale-110 border-2 border-primary shadow-lg"
-              : "bg-accent text-accent-foreground hover:bg-primary hover:text-white border-2 border-accent"
-          }`}
+              : `${SEAT_STATUS_CLASSES[status]} ${
+                  isBookable
+                    ? "hover:bg-primary hover:text-white"
+                    : isSwappable
+                    ? "hover:ring-2 hover:ring-primary"
+                    : "cursor-not-allowed"
+                } ${isJustBooked ? "animate-seat-booked" : ""}`
+          } ${isSuggested ? "ring-2 ring-yellow-400 ring-offset-2" : ""}`}
       >
         {getSeatLabel(row, col)}
+        {StatusIcon && (
+          <StatusIcon
+            aria-hidden
+            className="absolute -top-1.5 -right-1.5 w-4 h-4 p-0.5 rounded-full bg-background text-foreground border"
+          />
+        )}
       </button>
     );
   }
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import ETicket, { Ticket as TicketInfo } from "@/components/ETicket";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+
+const Ticket = () => {
+  const { showId } = useParams();
+  const navigate = useNavigate();
+  const [tickets, setTickets] = useState<TicketInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTickets = async () => {
+      const { data, error } = await supabase.rpc("get_my_tickets", { _show_id: showId! });
+      if (error) console.error(error);
+      setTickets(data || []);
+      setLoading(false);
+    };
+
+    fetchTickets();
+  }, [showId]);
+
+  // Saves the QR code on its own, e.g. for a phone wallet or an email to oneself
+  const handleDownload = (ticket: TicketInfo) => {
+    const svg = document.getElementById(`ticket-qr-${ticket.booking_id}`);
+    if (!svg) return;
+
+    const blob = new Blob([new XMLSerializer().serializeToString(svg)], { type: "image/svg+xml" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ticket-${ticket.seat_label}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        Loading your ticket...
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30 p-6 print:bg-none print:p-0">
+      <div className="max-w-2xl mx-auto space-y-6">
+
+        <div className="flex items-center justify-between print:hidden">
+          <Button variant="ghost" onClick={() => navigate(`/dashboard?show=${showId}`)}>
+            <ArrowLeft className="w-4 h-4" /> Back
+          </Button>
+          {tickets.length > 0 && (
+            <Button variant="outline" className="gap-2" onClick={() => window.print()}>
+              <Printer className="w-4 h-4" />
+              Print
+            </Button>
+          )}
+        </div>
+
+        {tickets.length === 0 ? (
+          <p className="text-center text-muted-foreground">
+            You don't have a ticket for this show.
+          </p>
+        ) : (
+          tickets.map((ticket) => (
+            <div key={ticket.booking_id} className="space-y-2">
+              <ETicket ticket={ticket} qrId={`ticket-qr-${ticket.booking_id}`} />
+              <div className="flex justify-end print:hidden">
+                <Button size="sm" variant="ghost" className="gap-2" onClick={() => handleDownload(ticket)}>
+                  <Download className="w-4 h-4" />
+                  Download QR code
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <p className="text-center text-xs text-muted-foreground">
+          Show this code at the door. It is checked against your booking, so a changed seat needs the latest ticket.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Ticket;
@@ -0,0 +1,47 @@
+import { createClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonResponse } from "./cors.ts";
+
+// 🔐 Resolves the calling user and checks they are an admin.
+// Returns an error Response to send back when they are not.
+export const requireAdmin = async (
+  req: Request
+): Promise<{ user: User } | { response: Response }> => {
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    {
+      global: {
+        headers: { Authorization: req.headers.get("Authorization") ?? "" },
+      },
+    }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabaseClient.auth.getUser();
+
+  if (userError || !user) {
+    return { response: jsonResponse({ error: "Unauthorized" }, 401) };
+  }
+
+  const { data: roleData } = await supabaseClient
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+
+  if (!roleData) {
+    return { response: jsonResponse({ error: "Only admins can manage users" }, 403) };
+  }
+
+  return { user };
+};
+
+// 👇 SERVICE ROLE client for privileged operations
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
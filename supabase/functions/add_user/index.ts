@@ -0,0 +1,94 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, requireAdmin } from "../_shared/admin.ts";
+
+const ROLES = ["admin", "user", "usher"];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  const adminClient = createAdminClient();
+
+  // Track what has been created so a later failure can undo it
+  let authUserId: string | null = null;
+  let allowedUserId: string | null = null;
+
+  try {
+    const body = await req.json();
+    const email = body.email?.toString().trim().toLowerCase();
+    const uti = body.uti?.toString().trim();
+    const role = body.role || "user";
+
+    if (!email || !uti) {
+      return jsonResponse({ error: "Missing email or uti", code: "invalid_input" }, 400);
+    }
+
+    if (!ROLES.includes(role)) {
+      return jsonResponse({ error: `Unknown role: ${role}`, code: "invalid_input" }, 400);
+    }
+
+    // 🔍 Duplicate detection before touching anything (UTIs are hashed, so by email only)
+    const { data: existing, error: existingError } = await adminClient
+      .from("allowed_users")
+      .select("id")
+      .eq("email", email)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (existing) {
+      return jsonResponse({ error: "A user with this email already exists", code: "duplicate" }, 409);
+    }
+
+    // 1️⃣ Create Auth user; the login function issues sessions, so the password is random
+    const { data: authUser, error: authError } =
+      await adminClient.auth.admin.createUser({
+        email,
+        password: crypto.randomUUID(),
+        email_confirm: true,
+      });
+
+    if (authError) {
+      if (authError.code === "email_exists" || authError.code === "user_already_exists") {
+        return jsonResponse({ error: "An account with this email already exists", code: "duplicate" }, 409);
+      }
+      throw authError;
+    }
+
+    authUserId = authUser.user.id;
+
+    // 2️⃣ Insert allowed user; the UTI is hashed in the database
+    const { data: allowedUser, error: allowedError } = await adminClient.rpc("create_allowed_user", {
+      _email: email,
+      _uti: uti,
+    });
+
+    if (allowedError) throw allowedError;
+    allowedUserId = allowedUser;
+
+    // 3️⃣ Insert role
+    const { error: roleError } = await adminClient
+      .from("user_roles")
+      .insert({ user_id: authUserId, role });
+
+    if (roleError) throw roleError;
+
+    return jsonResponse({ success: true, user_id: authUserId });
+
+  } catch (err) {
+    // ↩️ Roll back partial creation; deleting the auth user cascades to user_roles
+    if (allowedUserId) {
+      await adminClient.from("allowed_users").delete().eq("id", allowedUserId);
+    }
+    if (authUserId) {
+      await adminClient.auth.admin.deleteUser(authUserId);
+    }
+
+    return jsonResponse({ error: errorMessage(err), code: "failed" }, 500);
+  }
+});
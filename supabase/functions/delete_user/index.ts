@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient, requireAdmin } from "../_shared/admin.ts";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const auth = await requireAdmin(req);
+  if ("response" in auth) return auth.response;
+
+  try {
+    const { user_id } = await req.json();
+
+    if (!user_id) {
+      return jsonResponse({ error: "Missing user_id", code: "invalid_input" }, 400);
+    }
+
+    if (user_id === auth.user.id) {
+      return jsonResponse({ error: "You cannot delete your own account", code: "invalid_input" }, 400);
+    }
+
+    const adminClient = createAdminClient();
+
+    // 🔍 Collect what will be removed
+    const { data: target, error: targetError } =
+      await adminClient.auth.admin.getUserById(user_id);
+
+    if (targetError || !target.user) {
+      return jsonResponse({ error: "User not found", code: "not_found" }, 404);
+    }
+
+    const email = target.user.email?.toLowerCase() ?? null;
+
+    const { data: roles } = await adminClient
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user_id);
+
+    const { data: bookings } = await adminClient
+      .from("bookings")
+      .select("id, show_id, seats(row_num, col_num)")
+      .eq("user_id", user_id);
+
+    // 1️⃣ Auth user; its bookings and roles go with it in the same transaction,
+    // and on_booking_deleted still frees their seats. No-shows and seat transfers
+    // stay behind under the email they were recorded with
+    const { error: deleteError } = await adminClient.auth.admin.deleteUser(user_id);
+    if (deleteError) throw deleteError;
+
+    // 2️⃣ Allowed user entry, so the email cannot sign in again
+    let allowedUserRemoved = false;
+    if (email) {
+      const { data: removedAllowed, error: allowedError } = await adminClient
+        .from("allowed_users")
+        .delete()
+        .eq("email", email)
+        .select("id");
+
+      if (allowedError) throw allowedError;
+      allowedUserRemoved = !!removedAllowed?.length;
+    }
+
+    return jsonResponse({
+      success: true,
+      removed: {
+        auth_user: email,
+        allowed_user: allowedUserRemoved,
+        roles: (roles ?? []).map((r) => r.role),
+        bookings: bookings ?? [],
+      },
+    });
+
+  } catch (err) {
+    return jsonResponse({ error: errorMessage(err), code: "failed" }, 500);
+  }
+});
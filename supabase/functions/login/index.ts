@@ -1,11 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { createAdminClient } from "../_shared/admin.ts";
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -13,91 +9,118 @@ serve(async (req) => {
   }
 
   try {
-    // 🔐 Create client with AUTH context (not service yet)
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      {
-        global: {
-          headers: { Authorization: req.headers.get("Authorization")! },
-        },
-      }
-    );
-
-    // 🔐 Check logged in user
-    const {
-      data: { user },
-      error: userError,
-    } = await supabaseClient.auth.getUser();
+    const body = await req.json();
+    const email = body.email?.toString().trim().toLowerCase();
+    const uti = body.uti?.toString().trim();
 
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { headers: corsHeaders, status: 401 }
-      );
+    if (!email || !uti) {
+      return jsonResponse({ error: "Email and UTI are required", code: "invalid_input" }, 400);
     }
 
-    // 🔐 Check admin role
-    const { data: roleData } = await supabaseClient
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", user.id)
-      .eq("role", "admin")
-      .maybeSingle();
-
-    if (!roleData) {
-      return new Response(
-        JSON.stringify({ error: "Only admins can add users" }),
-        { headers: corsHeaders, status: 403 }
+    // 👇 SERVICE ROLE: verify_uti and link generation are not callable by clients
+    const adminClient = createAdminClient();
+
+    // The proxy in front of the function appends the address it saw as the last hop;
+    // entries to the left of it come from the client and can be made up
+    const ip = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || null;
+
+    const lockedResponse = (lockedUntil: string) =>
+      jsonResponse(
+        { error: "Too many attempts", code: "locked", locked_until: lockedUntil },
+        429
       );
-    }
 
-    // 👇 Now use SERVICE ROLE for privileged operations
-    const adminClient = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
-    );
+    // Counts the failure and switches to the lockout response once it kicks in
+    const failed = async (error: string, code: string) => {
+      const { data: lockedUntil, error: recordError } = await adminClient.rpc("record_login_failure", {
+        _email: email,
+        _ip: ip,
+      });
 
-    const { email, uti, role } = await req.json();
+      if (recordError) throw recordError;
 
-    if (!email || !uti) {
-      return new Response(
-        JSON.stringify({ error: "Missing email or uti" }),
-        { headers: corsHeaders, status: 400 }
-      );
+      return lockedUntil ? lockedResponse(lockedUntil) : jsonResponse({ error, code }, 401);
+    };
+
+    // 0️⃣ Locked out by earlier failures from this email or IP?
+    const { data: lockedUntil, error: lockError } = await adminClient.rpc("get_login_lock", {
+      _email: email,
+      _ip: ip,
+    });
+
+    if (lockError) throw lockError;
+
+    if (lockedUntil) {
+      return lockedResponse(lockedUntil);
     }
 
-    // 1️⃣ Create Auth user
-    const { data: authUser, error: authError } =
-      await adminClient.auth.admin.createUser({
-        email: email.toLowerCase(),
-        password: uti,
-        email_confirm: true,
-      });
+    // 1️⃣ Is the email on the allow-list?
+    const { data: allowed, error: allowedError } = await adminClient.rpc("is_allowed_email", {
+      _email: email,
+    });
+
+    if (allowedError) throw allowedError;
 
-    if (authError) throw authError;
+    if (!allowed) {
+      return failed("This email is not on the guest list", "unknown_email");
+    }
 
-    // 2️⃣ Insert allowed user
-    await adminClient.from("allowed_users").insert({
-      email: email.toLowerCase(),
-      uti,
+    // 2️⃣ Does the UTI match the stored hash?
+    const { data: utiMatches, error: utiError } = await adminClient.rpc("verify_uti", {
+      _email: email,
+      _uti: uti,
     });
 
-    // 3️⃣ Insert role
-    await adminClient.from("user_roles").insert({
-      user_id: authUser.user.id,
-      role: role || "user",
+    if (utiError) throw utiError;
+
+    if (!utiMatches) {
+      return failed("Incorrect UTI", "wrong_uti");
+    }
+
+    // 3️⃣ Issue a session server-side from a one-time magic link token,
+    // so the UTI never doubles as the auth password
+    const disabled = () =>
+      jsonResponse(
+        { error: "Your account is disabled. Please contact an admin.", code: "account_disabled" },
+        403
+      );
+
+    const { data: link, error: linkError } = await adminClient.auth.admin.generateLink({
+      type: "magiclink",
+      email,
     });
 
-    return new Response(
-      JSON.stringify({ success: true }),
-      { headers: corsHeaders, status: 200 }
-    );
+    // Allowed and correct UTI but no auth account: never provisioned
+    if (linkError || !link.properties?.hashed_token) {
+      return disabled();
+    }
 
-  } catch (err: any) {
-    return new Response(
-      JSON.stringify({ error: err.message }),
-      { headers: corsHeaders, status: 500 }
+    const authClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
     );
+
+    const { data, error: verifyError } = await authClient.auth.verifyOtp({
+      type: "magiclink",
+      token_hash: link.properties.hashed_token,
+    });
+
+    // Banned users cannot redeem the token
+    if (verifyError || !data.session) {
+      return disabled();
+    }
+
+    await adminClient.rpc("clear_login_failures", { _email: email });
+
+    return jsonResponse({
+      session: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token,
+      },
+    });
+
+  } catch (err) {
+    return jsonResponse({ error: errorMessage(err), code: "failed" }, 500);
   }
 });
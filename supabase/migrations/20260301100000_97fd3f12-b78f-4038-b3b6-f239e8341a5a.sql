@@ -0,0 +1,121 @@
+-- Shows (performances): each show owns one seat layout, so seats are per show
+CREATE TABLE public.shows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  seat_layout_id UUID NOT NULL UNIQUE REFERENCES public.seat_layout(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.shows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view shows"
+ON public.shows FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage shows"
+ON public.shows FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Existing layouts become the first show
+INSERT INTO public.shows (title, starts_at, seat_layout_id)
+SELECT 'Doraemon : Nobita''s Dorabian Nights', now(), id
+FROM public.seat_layout;
+
+-- Helper function: get the show a seat belongs to
+CREATE OR REPLACE FUNCTION public.get_show_for_seat(_seat_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sh.id
+  FROM public.seats s
+  JOIN public.shows sh ON sh.seat_layout_id = s.seat_layout_id
+  WHERE s.id = _seat_id
+$$;
+
+-- Scope bookings per show
+ALTER TABLE public.bookings
+ADD COLUMN show_id UUID REFERENCES public.shows(id) ON DELETE CASCADE;
+
+UPDATE public.bookings
+SET show_id = public.get_show_for_seat(seat_id);
+
+ALTER TABLE public.bookings ALTER COLUMN show_id SET NOT NULL;
+
+-- One booking per user per show (was one booking per user overall)
+ALTER TABLE public.bookings DROP CONSTRAINT bookings_user_id_key;
+ALTER TABLE public.bookings ADD CONSTRAINT bookings_user_id_show_id_key UNIQUE (user_id, show_id);
+
+-- Trigger to keep bookings.show_id in sync with the booked seat
+CREATE OR REPLACE FUNCTION public.set_booking_show()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.show_id := public.get_show_for_seat(NEW.seat_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_booking_set_show
+BEFORE INSERT OR UPDATE OF seat_id ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_booking_show();
+
+-- Helper function: check if user already has a booking for a show
+CREATE OR REPLACE FUNCTION public.user_has_booking_for_show(_user_id UUID, _show_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE user_id = _user_id AND show_id = _show_id
+  )
+$$;
+
+DROP POLICY "Users can book if no existing booking and seat available" ON public.bookings;
+
+CREATE POLICY "Users can book once per show if seat available"
+ON public.bookings FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND NOT public.user_has_booking_for_show(auth.uid(), public.get_show_for_seat(seat_id))
+  AND public.seat_is_available(seat_id)
+);
+
+-- Function to list a show's bookings with user emails (admin only)
+CREATE OR REPLACE FUNCTION public.get_all_bookings_with_email(_show_id UUID)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  email TEXT,
+  seat_id UUID,
+  show_id UUID,
+  row_num INTEGER,
+  col_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id, b.user_id, u.email::TEXT, b.seat_id, b.show_id, s.row_num, s.col_num
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.show_id = _show_id
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY s.row_num, s.col_num
+$$;
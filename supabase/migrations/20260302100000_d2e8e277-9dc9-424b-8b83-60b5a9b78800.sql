@@ -0,0 +1,114 @@
+-- How long a clicked seat stays reserved before it is released again
+ALTER TABLE public.shows ADD COLUMN hold_minutes INTEGER NOT NULL DEFAULT 5;
+
+-- Temporary seat holds taken while a user confirms their booking
+CREATE TABLE public.seat_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seat_id UUID NOT NULL UNIQUE REFERENCES public.seats(id) ON DELETE CASCADE,
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.seat_holds ENABLE ROW LEVEL SECURITY;
+
+-- Everyone sees held seats; holds are only written through the RPCs below
+CREATE POLICY "Anyone authenticated can view seat holds"
+ON public.seat_holds FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage seat holds"
+ON public.seat_holds FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Helper function: check if seat is available (not booked, not held by someone else)
+CREATE OR REPLACE FUNCTION public.seat_is_available(_seat_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT s.is_booked
+    AND NOT EXISTS (
+      SELECT 1 FROM public.seat_holds h
+      WHERE h.seat_id = s.id
+        AND h.expires_at > now()
+        AND h.user_id IS DISTINCT FROM auth.uid()
+    )
+  FROM public.seats s
+  WHERE s.id = _seat_id
+$$;
+
+-- Hold a seat for the current user; returns the expiry, or NULL if the seat is taken
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  PERFORM 1 FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show
+  DELETE FROM public.seat_holds
+  WHERE user_id = auth.uid() AND show_id = _show_id AND seat_id <> _seat_id;
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Release the current user's hold on a seat
+CREATE OR REPLACE FUNCTION public.release_seat_hold(_seat_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.seat_holds
+  WHERE seat_id = _seat_id AND user_id = auth.uid()
+$$;
+
+-- Booking a seat consumes any hold on it
+CREATE OR REPLACE FUNCTION public.mark_seat_booked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.seats SET is_booked = true WHERE id = NEW.seat_id;
+  DELETE FROM public.seat_holds WHERE seat_id = NEW.seat_id;
+  RETURN NEW;
+END;
+$$;
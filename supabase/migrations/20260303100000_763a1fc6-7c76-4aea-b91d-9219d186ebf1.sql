@@ -0,0 +1,7 @@
+-- Broadcast seat map changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE public.seats, public.seat_holds, public.bookings;
+
+-- Full old rows let clients tell which seat changed and what it was before
+ALTER TABLE public.seats REPLICA IDENTITY FULL;
+ALTER TABLE public.seat_holds REPLICA IDENTITY FULL;
+ALTER TABLE public.bookings REPLICA IDENTITY FULL;
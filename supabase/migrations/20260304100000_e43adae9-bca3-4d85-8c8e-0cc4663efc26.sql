@@ -0,0 +1,70 @@
+-- Outcome of a booking attempt, mapped to a specific message by the client
+CREATE TYPE public.booking_result AS ENUM (
+  'ok',
+  'seat_taken',
+  'already_booked',
+  'booking_closed',
+  'seat_blocked'
+);
+
+-- Atomically book a seat for the current user
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND OR now() >= _show.starts_at THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF _seat.is_booked THEN
+    IF EXISTS (SELECT 1 FROM public.bookings WHERE seat_id = _seat_id) THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- Users now book exclusively through book_seat
+DROP POLICY "Users can book once per show if seat available" ON public.bookings;
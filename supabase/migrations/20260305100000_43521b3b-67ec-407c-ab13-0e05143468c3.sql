@@ -0,0 +1,131 @@
+-- Per-show rules for users changing or releasing their own booking
+ALTER TABLE public.shows ADD COLUMN change_cutoff_at TIMESTAMPTZ;
+ALTER TABLE public.shows ADD COLUMN max_seat_changes INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE public.bookings ADD COLUMN change_count INTEGER NOT NULL DEFAULT 0;
+
+-- Outcome of a self-service change or release, mapped to a message by the client
+CREATE TYPE public.booking_change_result AS ENUM (
+  'ok',
+  'seat_taken',
+  'seat_blocked',
+  'changes_closed',
+  'change_limit_reached',
+  'not_found'
+);
+
+-- Helper function: can users still change bookings for a show (cutoff defaults to show start)
+CREATE OR REPLACE FUNCTION public.booking_changes_open(_show_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(now() < COALESCE(change_cutoff_at, starts_at), false)
+  FROM public.shows WHERE id = _show_id
+$$;
+
+-- Seat reassignment also consumes any hold on the new seat
+CREATE OR REPLACE FUNCTION public.handle_booking_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.seat_id <> NEW.seat_id THEN
+    UPDATE public.seats SET is_booked = false WHERE id = OLD.seat_id;
+    UPDATE public.seats SET is_booked = true WHERE id = NEW.seat_id;
+    DELETE FROM public.seat_holds WHERE seat_id = NEW.seat_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Move the current user's booking to another seat of the same show
+CREATE OR REPLACE FUNCTION public.change_booking_seat(_booking_id UUID, _seat_id UUID)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _max_changes INTEGER;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_booking.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT max_seat_changes INTO _max_changes FROM public.shows WHERE id = _booking.show_id;
+  IF _booking.change_count >= _max_changes THEN
+    RETURN 'change_limit_reached';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR public.get_show_for_seat(_seat_id) IS DISTINCT FROM _booking.show_id THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.id = _booking.seat_id THEN
+    RETURN 'ok';
+  END IF;
+
+  IF _seat.is_booked THEN
+    IF EXISTS (SELECT 1 FROM public.bookings WHERE seat_id = _seat_id) THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- on_booking_updated frees the old seat and freezes the new one
+  UPDATE public.bookings
+  SET seat_id = _seat_id, change_count = change_count + 1
+  WHERE id = _booking_id;
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'seat_taken';
+END;
+$$;
+
+-- Give up the current user's booking; on_booking_deleted frees the seat
+CREATE OR REPLACE FUNCTION public.release_booking(_booking_id UUID)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+BEGIN
+  SELECT show_id INTO _show_id FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  DELETE FROM public.bookings WHERE id = _booking_id;
+
+  RETURN 'ok';
+END;
+$$;
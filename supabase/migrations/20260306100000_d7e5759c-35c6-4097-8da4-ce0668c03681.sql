@@ -0,0 +1,79 @@
+-- Layout definition: sections (blocks with aisles between them), cross aisles,
+-- per-row seat counts and offsets, and missing seats such as pillars
+ALTER TABLE public.seat_layout
+ADD COLUMN definition JSONB NOT NULL DEFAULT '{
+  "sections": [
+    { "name": "A", "columns": 4 },
+    { "name": "B", "columns": 8 },
+    { "name": "C", "columns": 4 }
+  ],
+  "aisleAfterRows": [],
+  "rowOverrides": {},
+  "gaps": []
+}'::jsonb;
+
+-- Function to generate seats for a layout from its definition
+CREATE OR REPLACE FUNCTION public.generate_seats_for_layout(_layout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rows INTEGER;
+  _def JSONB;
+  _section RECORD;
+  _start INTEGER;
+  _width INTEGER;
+  _count INTEGER;
+  _pad INTEGER;
+  r INTEGER;
+  i INTEGER;
+BEGIN
+  SELECT total_rows, definition INTO _rows, _def
+  FROM public.seat_layout WHERE id = _layout_id;
+
+  -- Keep total_columns in step with the sections
+  UPDATE public.seat_layout
+  SET total_columns = (
+        SELECT COALESCE(SUM((s->>'columns')::INTEGER), 0)
+        FROM jsonb_array_elements(_def->'sections') s
+      ),
+      updated_at = now()
+  WHERE id = _layout_id;
+
+  -- Delete existing unbooked seats for this layout
+  DELETE FROM public.seats
+  WHERE seat_layout_id = _layout_id AND is_booked = false;
+
+  -- Insert new seats (skip existing booked ones)
+  FOR r IN 1.._rows LOOP
+    _start := 1;
+
+    FOR _section IN
+      SELECT value AS def, ordinality - 1 AS idx
+      FROM jsonb_array_elements(_def->'sections') WITH ORDINALITY
+      ORDER BY ordinality
+    LOOP
+      _width := (_section.def->>'columns')::INTEGER;
+      _count := LEAST(GREATEST(
+        COALESCE((_def->'rowOverrides'->(r::TEXT)->'seats'->>(_section.idx::INTEGER))::INTEGER, _width),
+        0), _width);
+      -- Shorter rows are centred within the section
+      _pad := (_width - _count) / 2;
+
+      FOR i IN _pad.._pad + _count - 1 LOOP
+        IF NOT COALESCE(_def->'gaps', '[]'::jsonb) @> jsonb_build_array(
+          jsonb_build_object('row', r, 'col', _start + i)
+        ) THEN
+          INSERT INTO public.seats (seat_layout_id, row_num, col_num)
+          VALUES (_layout_id, r, _start + i)
+          ON CONFLICT (seat_layout_id, row_num, col_num) DO NOTHING;
+        END IF;
+      END LOOP;
+
+      _start := _start + _width;
+    END LOOP;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,166 @@
+-- Helper function: does a layout definition place a seat at (row, col)
+CREATE OR REPLACE FUNCTION public.layout_has_seat(
+  _definition JSONB,
+  _rows INTEGER,
+  _row INTEGER,
+  _col INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _section RECORD;
+  _start INTEGER := 1;
+  _width INTEGER;
+  _count INTEGER;
+  _pad INTEGER;
+BEGIN
+  IF _row < 1 OR _row > _rows THEN
+    RETURN false;
+  END IF;
+
+  FOR _section IN
+    SELECT value AS def, ordinality - 1 AS idx
+    FROM jsonb_array_elements(_definition->'sections') WITH ORDINALITY
+    ORDER BY ordinality
+  LOOP
+    _width := (_section.def->>'columns')::INTEGER;
+
+    IF _col >= _start AND _col < _start + _width THEN
+      _count := LEAST(GREATEST(
+        COALESCE((_definition->'rowOverrides'->(_row::TEXT)->'seats'->>(_section.idx::INTEGER))::INTEGER, _width),
+        0), _width);
+      -- Shorter rows are centred within the section
+      _pad := (_width - _count) / 2;
+
+      RETURN _col - _start >= _pad
+        AND _col - _start < _pad + _count
+        AND NOT COALESCE(_definition->'gaps', '[]'::jsonb) @> jsonb_build_array(
+          jsonb_build_object('row', _row, 'col', _col)
+        );
+    END IF;
+
+    _start := _start + _width;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- Function to generate seats for a layout from its definition
+CREATE OR REPLACE FUNCTION public.generate_seats_for_layout(_layout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rows INTEGER;
+  _cols INTEGER;
+  _def JSONB;
+  r INTEGER;
+  c INTEGER;
+BEGIN
+  SELECT total_rows, definition INTO _rows, _def
+  FROM public.seat_layout WHERE id = _layout_id;
+
+  SELECT COALESCE(SUM((s->>'columns')::INTEGER), 0) INTO _cols
+  FROM jsonb_array_elements(_def->'sections') s;
+
+  -- Keep total_columns in step with the sections
+  UPDATE public.seat_layout
+  SET total_columns = _cols, updated_at = now()
+  WHERE id = _layout_id;
+
+  -- Delete existing unbooked seats for this layout
+  DELETE FROM public.seats
+  WHERE seat_layout_id = _layout_id AND is_booked = false;
+
+  -- Insert new seats (skip existing booked ones)
+  FOR r IN 1.._rows LOOP
+    FOR c IN 1.._cols LOOP
+      IF public.layout_has_seat(_def, _rows, r, c) THEN
+        INSERT INTO public.seats (seat_layout_id, row_num, col_num)
+        VALUES (_layout_id, r, c)
+        ON CONFLICT (seat_layout_id, row_num, col_num) DO NOTHING;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- Apply a new layout in one transaction. Bookings on seats outside the new
+-- layout must be relocated via _relocations ([{ booking_id, row, col }]),
+-- otherwise the whole change is rolled back.
+CREATE OR REPLACE FUNCTION public.apply_layout_change(
+  _layout_id UUID,
+  _rows INTEGER,
+  _definition JSONB,
+  _relocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _relocation JSONB;
+  _target UUID;
+  _stranded INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change seat layouts';
+  END IF;
+
+  PERFORM 1 FROM public.seat_layout WHERE id = _layout_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Seat layout not found';
+  END IF;
+
+  UPDATE public.seat_layout
+  SET total_rows = _rows, definition = _definition
+  WHERE id = _layout_id;
+
+  PERFORM public.generate_seats_for_layout(_layout_id);
+
+  FOR _relocation IN SELECT value FROM jsonb_array_elements(_relocations) LOOP
+    SELECT id INTO _target FROM public.seats
+    WHERE seat_layout_id = _layout_id
+      AND row_num = (_relocation->>'row')::INTEGER
+      AND col_num = (_relocation->>'col')::INTEGER
+      AND NOT is_booked
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Seat at row %, column % is not free for relocation',
+        _relocation->>'row', _relocation->>'col';
+    END IF;
+
+    -- on_booking_updated frees the old seat and freezes the new one
+    UPDATE public.bookings
+    SET seat_id = _target
+    WHERE id = (_relocation->>'booking_id')::UUID
+      AND seat_id IN (SELECT id FROM public.seats WHERE seat_layout_id = _layout_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking % does not belong to this layout', _relocation->>'booking_id';
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO _stranded
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  WHERE s.seat_layout_id = _layout_id
+    AND NOT public.layout_has_seat(_definition, _rows, s.row_num, s.col_num);
+
+  IF _stranded > 0 THEN
+    RAISE EXCEPTION '% booking(s) fall outside the new layout and must be relocated', _stranded;
+  END IF;
+
+  -- Remove remaining seats outside the layout, including admin-frozen ones
+  DELETE FROM public.seats
+  WHERE seat_layout_id = _layout_id
+    AND NOT public.layout_has_seat(_definition, _rows, row_num, col_num);
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Function to list all users with their role (admin only)
+CREATE OR REPLACE FUNCTION public.get_all_users_with_roles()
+RETURNS TABLE(id UUID, email TEXT, role app_role)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    u.email::TEXT,
+    CASE WHEN bool_or(r.role = 'admin') THEN 'admin'::app_role ELSE 'user'::app_role END
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY u.id, u.email
+  ORDER BY u.email
+$$;
@@ -0,0 +1,3 @@
+-- UTIs are credentials: only the login edge function (service role) may read them
+REVOKE EXECUTE ON FUNCTION public.get_uti_for_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_uti_for_email(TEXT) TO service_role;
@@ -0,0 +1,53 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- One-off conversion: store only a salted bcrypt hash of each UTI
+ALTER TABLE public.allowed_users ADD COLUMN uti_hash TEXT;
+
+UPDATE public.allowed_users
+SET uti_hash = extensions.crypt(uti, extensions.gen_salt('bf'));
+
+ALTER TABLE public.allowed_users ALTER COLUMN uti_hash SET NOT NULL;
+
+-- Salted hashes cannot be unique-checked, and the plaintext must go
+ALTER TABLE public.allowed_users DROP COLUMN uti;
+
+-- UTIs were also used verbatim as auth passwords; scramble those so the raw
+-- UTI only works through the login edge function
+UPDATE auth.users u
+SET encrypted_password = extensions.crypt(gen_random_uuid()::TEXT, extensions.gen_salt('bf'))
+FROM public.allowed_users a
+WHERE lower(u.email) = a.email;
+
+DROP FUNCTION public.get_uti_for_email(TEXT);
+
+-- Verify a UTI against the stored hash (login edge function only)
+CREATE OR REPLACE FUNCTION public.verify_uti(_email TEXT, _uti TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE(
+    (SELECT uti_hash = crypt(_uti, uti_hash)
+     FROM public.allowed_users WHERE email = lower(_email)),
+    false
+  )
+$$;
+
+-- Add an allow-listed user, hashing their UTI (add_user edge function only)
+CREATE OR REPLACE FUNCTION public.create_allowed_user(_email TEXT, _uti TEXT)
+RETURNS UUID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  INSERT INTO public.allowed_users (email, uti_hash)
+  VALUES (lower(_email), crypt(_uti, gen_salt('bf')))
+  RETURNING id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_uti(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_allowed_user(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_uti(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.create_allowed_user(TEXT, TEXT) TO service_role;
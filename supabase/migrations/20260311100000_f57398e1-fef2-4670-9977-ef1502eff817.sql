@@ -0,0 +1,121 @@
+-- Failed login tracking, one row per email and per client IP
+CREATE TABLE public.login_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('email', 'ip')),
+  identifier TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_until TIMESTAMPTZ,
+  -- For email rows: the IP of the latest failure, so an unlock can clear it too
+  last_ip TEXT,
+  UNIQUE (kind, identifier)
+);
+
+ALTER TABLE public.login_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view login attempts"
+ON public.login_attempts
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Latest active lock for this email or IP, NULL when sign-in is allowed
+CREATE OR REPLACE FUNCTION public.get_login_lock(_email TEXT, _ip TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(locked_until)
+  FROM public.login_attempts
+  WHERE locked_until > now()
+    AND ((kind = 'email' AND identifier = lower(_email))
+      OR (kind = 'ip' AND identifier = _ip))
+$$;
+
+-- Count a failed sign-in. Past the free attempts each further failure doubles
+-- the lockout (1, 2, 4 ... minutes, capped at a day); counters reset after a
+-- day without failures. Returns the resulting lock, if any.
+CREATE OR REPLACE FUNCTION public.record_login_failure(_email TEXT, _ip TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key RECORD;
+  _failures INTEGER;
+  _lock TIMESTAMPTZ;
+  _result TIMESTAMPTZ;
+BEGIN
+  FOR _key IN
+    SELECT * FROM (VALUES ('email', lower(_email), 5), ('ip', _ip, 20)) AS k(kind, identifier, free_attempts)
+    WHERE k.identifier IS NOT NULL
+  LOOP
+    INSERT INTO public.login_attempts AS a (kind, identifier, failures, last_ip)
+    VALUES (_key.kind, _key.identifier, 1, CASE WHEN _key.kind = 'email' THEN _ip END)
+    ON CONFLICT (kind, identifier) DO UPDATE
+    SET failures = CASE WHEN a.last_failed_at < now() - interval '1 day' THEN 1 ELSE a.failures + 1 END,
+        last_failed_at = now(),
+        last_ip = EXCLUDED.last_ip
+    RETURNING a.failures INTO _failures;
+
+    IF _failures >= _key.free_attempts THEN
+      _lock := now() + LEAST(
+        interval '1 minute' * power(2, LEAST(_failures - _key.free_attempts, 11)),
+        interval '1 day'
+      );
+
+      UPDATE public.login_attempts
+      SET locked_until = _lock
+      WHERE kind = _key.kind AND identifier = _key.identifier;
+
+      _result := GREATEST(_result, _lock);
+    END IF;
+  END LOOP;
+
+  RETURN _result;
+END;
+$$;
+
+-- Successful sign-in: forget the email's failures (IP counters decay on their own)
+CREATE OR REPLACE FUNCTION public.clear_login_failures(_email TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.login_attempts WHERE kind = 'email' AND identifier = lower(_email)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_login_lock(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_login_failure(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.clear_login_failures(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_login_lock(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_login_failure(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.clear_login_failures(TEXT) TO service_role;
+
+-- Admin unlock: clears the email's counters and the IP it last failed from
+CREATE OR REPLACE FUNCTION public.unlock_login(_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ip TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can unlock accounts';
+  END IF;
+
+  DELETE FROM public.login_attempts
+  WHERE kind = 'email' AND identifier = lower(_email)
+  RETURNING last_ip INTO _ip;
+
+  IF _ip IS NOT NULL THEN
+    DELETE FROM public.login_attempts WHERE kind = 'ip' AND identifier = _ip;
+  END IF;
+END;
+$$;
@@ -0,0 +1,235 @@
+-- A set of adjacent seats booked together by a group leader for colleagues
+CREATE TABLE public.booking_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  leader_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view booking groups"
+ON public.booking_groups
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage booking groups"
+ON public.booking_groups
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TYPE public.group_member_status AS ENUM ('pending', 'accepted');
+
+-- Group seats are booked for colleagues straight away; they accept or decline later
+ALTER TABLE public.bookings
+  ADD COLUMN group_id UUID REFERENCES public.booking_groups(id) ON DELETE SET NULL,
+  ADD COLUMN group_status public.group_member_status;
+
+-- Outcome of a group booking attempt, mapped to a message by the client
+CREATE TYPE public.group_booking_result AS ENUM (
+  'ok',
+  'seat_taken',
+  'seat_blocked',
+  'booking_closed',
+  'already_booked',
+  'not_adjacent',
+  'invalid_group'
+);
+
+-- Helper function: index of the section a column falls in, NULL if outside the layout
+CREATE OR REPLACE FUNCTION public.layout_section_index(_definition JSONB, _col INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT idx::INTEGER - 1
+  FROM (
+    SELECT ordinality AS idx,
+      SUM((value->>'columns')::INTEGER) OVER (ORDER BY ordinality) AS section_end,
+      (value->>'columns')::INTEGER AS width
+    FROM jsonb_array_elements(_definition->'sections') WITH ORDINALITY
+  ) s
+  WHERE _col > s.section_end - s.width AND _col <= s.section_end
+$$;
+
+-- Allow-listed colleagues a group leader can assign seats to
+CREATE OR REPLACE FUNCTION public.get_colleagues(_show_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, has_booking BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, a.email, public.user_has_booking_for_show(u.id, _show_id)
+  FROM auth.users u
+  JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE auth.uid() IS NOT NULL
+  ORDER BY a.email
+$$;
+
+-- Book adjacent seats for a group in one go; either every seat is booked or none.
+-- _assignments is [{ "seat_id": ..., "user_id": ... }]
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR now() >= _show.starts_at THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.id = ANY(_seat_ids) AND s.is_booked
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.seat_id = s.id)
+  ) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF EXISTS (SELECT 1 FROM unnest(_seat_ids) s WHERE NOT public.seat_is_available(s)) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- A colleague accepts their group seat, or declines it; on_booking_deleted frees the seat
+CREATE OR REPLACE FUNCTION public.respond_to_group_booking(_booking_id UUID, _accept BOOLEAN)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid() AND group_status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.bookings SET group_status = 'accepted' WHERE id = _booking_id;
+  ELSE
+    DELETE FROM public.bookings WHERE id = _booking_id;
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+-- Everyone in a group with their seat and answer, visible to the group's members
+CREATE OR REPLACE FUNCTION public.get_group_members(_group_id UUID)
+RETURNS TABLE (
+  booking_id UUID,
+  email TEXT,
+  row_num INTEGER,
+  col_num INTEGER,
+  group_status public.group_member_status
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id, u.email::TEXT, s.row_num, s.col_num, b.group_status
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.group_id = _group_id
+    AND (
+      EXISTS (SELECT 1 FROM public.booking_groups g WHERE g.id = _group_id AND g.leader_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM public.bookings m WHERE m.group_id = _group_id AND m.user_id = auth.uid())
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  ORDER BY s.col_num
+$$;
@@ -0,0 +1,280 @@
+-- How long a waitlisted user has to claim an offered seat
+ALTER TABLE public.shows ADD COLUMN waitlist_claim_minutes INTEGER NOT NULL DEFAULT 15;
+
+CREATE TYPE public.waitlist_status AS ENUM ('waiting', 'offered', 'claimed', 'expired');
+
+CREATE TABLE public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status public.waitlist_status NOT NULL DEFAULT 'waiting',
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  offered_seat_id UUID REFERENCES public.seats(id) ON DELETE SET NULL,
+  offer_expires_at TIMESTAMPTZ
+);
+
+-- One active entry per user and show; finished entries are kept as history
+CREATE UNIQUE INDEX waitlist_entries_active_key
+ON public.waitlist_entries (show_id, user_id)
+WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX waitlist_entries_queue_idx
+ON public.waitlist_entries (show_id, joined_at)
+WHERE status = 'waiting';
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own waitlist entries"
+ON public.waitlist_entries
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage waitlist entries"
+ON public.waitlist_entries
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Outcome of joining the waitlist, mapped to a message by the client
+CREATE TYPE public.waitlist_result AS ENUM (
+  'ok',
+  'seats_available',
+  'already_booked',
+  'already_waiting',
+  'booking_closed'
+);
+
+-- Offer a free seat to the longest-waiting user by holding it for them
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR now() >= _show.starts_at THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, or someone is already holding it
+  IF EXISTS (SELECT 1 FROM public.seats WHERE id = _seat_id AND is_booked)
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _entry FROM public.waitlist_entries
+  WHERE show_id = _show.id AND status = 'waiting'
+  ORDER BY joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+-- Expire unclaimed offers and pass their seats on to the next in line
+CREATE OR REPLACE FUNCTION public.process_waitlist_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  FOR _entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE status = 'offered' AND (offer_expires_at <= now() OR offered_seat_id IS NULL)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.waitlist_entries SET status = 'expired' WHERE id = _entry.id;
+
+    IF _entry.offered_seat_id IS NOT NULL THEN
+      DELETE FROM public.seat_holds
+      WHERE seat_id = _entry.offered_seat_id AND user_id = _entry.user_id;
+
+      PERFORM public.offer_seat_to_waitlist(_entry.offered_seat_id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Freed seats go to the waitlist first
+CREATE OR REPLACE FUNCTION public.free_seat_on_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.seats SET is_booked = false WHERE id = OLD.seat_id;
+  PERFORM public.offer_seat_to_waitlist(OLD.seat_id);
+  RETURN OLD;
+END;
+$$;
+
+-- Booking any seat settles the user's waitlist entry; an offer they did not
+-- use moves on to the next person
+CREATE OR REPLACE FUNCTION public.settle_waitlist_on_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  UPDATE public.waitlist_entries
+  SET status = 'claimed'
+  WHERE user_id = NEW.user_id AND show_id = NEW.show_id AND status IN ('waiting', 'offered')
+  RETURNING * INTO _entry;
+
+  IF _entry.offered_seat_id IS NOT NULL AND _entry.offered_seat_id <> NEW.seat_id THEN
+    DELETE FROM public.seat_holds
+    WHERE seat_id = _entry.offered_seat_id AND user_id = NEW.user_id;
+
+    PERFORM public.offer_seat_to_waitlist(_entry.offered_seat_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_booking_settle_waitlist
+AFTER INSERT ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_waitlist_on_booking();
+
+-- Join the waitlist for a show that has no free seats
+CREATE OR REPLACE FUNCTION public.join_waitlist(_show_id UUID)
+RETURNS public.waitlist_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR now() >= _show.starts_at THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND show_id = _show_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN 'already_waiting';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE seat_layout_id = _show.seat_layout_id AND public.seat_is_available(id)
+  ) THEN
+    RETURN 'seats_available';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (show_id, user_id) VALUES (_show_id, _uid);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_waiting';
+END;
+$$;
+
+-- Leave the waitlist, passing on any seat currently offered
+CREATE OR REPLACE FUNCTION public.leave_waitlist(_show_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  DELETE FROM public.waitlist_entries
+  WHERE user_id = auth.uid() AND show_id = _show_id AND status IN ('waiting', 'offered')
+  RETURNING * INTO _entry;
+
+  IF _entry.offered_seat_id IS NOT NULL THEN
+    DELETE FROM public.seat_holds
+    WHERE seat_id = _entry.offered_seat_id AND user_id = _entry.user_id;
+
+    PERFORM public.offer_seat_to_waitlist(_entry.offered_seat_id);
+  END IF;
+END;
+$$;
+
+-- The current user's place on a show's waitlist, with any seat offered to them
+CREATE OR REPLACE FUNCTION public.get_my_waitlist_entry(_show_id UUID)
+RETURNS TABLE (
+  status public.waitlist_status,
+  queue_position INTEGER,
+  offered_seat_id UUID,
+  offer_expires_at TIMESTAMPTZ,
+  row_num INTEGER,
+  col_num INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Don't show an offer that has already run out
+  PERFORM public.process_waitlist_offers();
+
+  RETURN QUERY
+  SELECT w.status,
+    (SELECT count(*)::INTEGER + 1 FROM public.waitlist_entries q
+     WHERE q.show_id = w.show_id AND q.status = 'waiting' AND q.joined_at < w.joined_at),
+    w.offered_seat_id,
+    w.offer_expires_at,
+    s.row_num,
+    s.col_num
+  FROM public.waitlist_entries w
+  LEFT JOIN public.seats s ON s.id = w.offered_seat_id
+  WHERE w.user_id = auth.uid() AND w.show_id = _show_id AND w.status IN ('waiting', 'offered');
+END;
+$$;
+
+-- Move expired offers along every minute even when nobody is looking
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-waitlist-offers',
+  '* * * * *',
+  $$SELECT public.process_waitlist_offers()$$
+);
+
+-- Let the dashboard pick up offers as they are made
+ALTER TABLE public.waitlist_entries REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.waitlist_entries;
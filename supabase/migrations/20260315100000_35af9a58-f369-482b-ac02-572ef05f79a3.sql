@@ -0,0 +1,403 @@
+-- Per-show booking window; without an opening time booking is open right away,
+-- without a closing time it closes when the show starts
+ALTER TABLE public.shows
+  ADD COLUMN booking_opens_at TIMESTAMPTZ,
+  ADD COLUMN booking_closes_at TIMESTAMPTZ,
+  ADD COLUMN booking_paused BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TYPE public.booking_state AS ENUM ('not_open', 'open', 'paused', 'closed');
+
+ALTER TYPE public.booking_result ADD VALUE 'booking_not_open';
+ALTER TYPE public.booking_result ADD VALUE 'booking_paused';
+ALTER TYPE public.group_booking_result ADD VALUE 'booking_not_open';
+ALTER TYPE public.group_booking_result ADD VALUE 'booking_paused';
+
+-- Helper function: where a show is in its booking window right now
+CREATE OR REPLACE FUNCTION public.booking_state(_show_id UUID)
+RETURNS public.booking_state
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN now() >= COALESCE(booking_closes_at, starts_at) THEN 'closed'
+    WHEN booking_opens_at IS NOT NULL AND now() < booking_opens_at THEN 'not_open'
+    WHEN booking_paused THEN 'paused'
+    ELSE 'open'
+  END::public.booking_state
+  FROM public.shows WHERE id = _show_id
+$$;
+
+-- Bookings are refused outside the booking window, with the reason
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF _seat.is_booked THEN
+    IF EXISTS (SELECT 1 FROM public.bookings WHERE seat_id = _seat_id) THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- Group bookings follow the same window
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.id = ANY(_seat_ids) AND s.is_booked
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.seat_id = s.id)
+  ) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF EXISTS (SELECT 1 FROM unnest(_seat_ids) s WHERE NOT public.seat_is_available(s)) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- Holding a seat follows the window too, except for seat changes
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  PERFORM 1 FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF public.booking_state(_show_id) <> 'open'
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show
+  DELETE FROM public.seat_holds
+  WHERE user_id = auth.uid() AND show_id = _show_id AND seat_id <> _seat_id;
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Only offer seats while booking is open
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR public.booking_state(_show.id) <> 'open' THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, or someone is already holding it
+  IF EXISTS (SELECT 1 FROM public.seats WHERE id = _seat_id AND is_booked)
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _entry FROM public.waitlist_entries
+  WHERE show_id = _show.id AND status = 'waiting'
+  ORDER BY joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+-- The waitlist is only open while booking is
+CREATE OR REPLACE FUNCTION public.join_waitlist(_show_id UUID)
+RETURNS public.waitlist_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR public.booking_state(_show_id) <> 'open' THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND show_id = _show_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN 'already_waiting';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE seat_layout_id = _show.seat_layout_id AND public.seat_is_available(id)
+  ) THEN
+    RETURN 'seats_available';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (show_id, user_id) VALUES (_show_id, _uid);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_waiting';
+END;
+$$;
+
+-- Besides expiring offers, hand out seats that are free while people wait,
+-- e.g. seats freed while booking was paused
+CREATE OR REPLACE FUNCTION public.process_waitlist_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+  _seat_id UUID;
+BEGIN
+  FOR _entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE status = 'offered' AND (offer_expires_at <= now() OR offered_seat_id IS NULL)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.waitlist_entries SET status = 'expired' WHERE id = _entry.id;
+
+    IF _entry.offered_seat_id IS NOT NULL THEN
+      DELETE FROM public.seat_holds
+      WHERE seat_id = _entry.offered_seat_id AND user_id = _entry.user_id;
+
+      PERFORM public.offer_seat_to_waitlist(_entry.offered_seat_id);
+    END IF;
+  END LOOP;
+
+  FOR _seat_id IN
+    SELECT DISTINCT s.id
+    FROM public.waitlist_entries w
+    JOIN public.shows sh ON sh.id = w.show_id
+    JOIN public.seats s ON s.seat_layout_id = sh.seat_layout_id
+    WHERE w.status = 'waiting'
+      AND NOT s.is_booked
+      AND NOT EXISTS (
+        SELECT 1 FROM public.seat_holds h WHERE h.seat_id = s.id AND h.expires_at > now()
+      )
+  LOOP
+    PERFORM public.offer_seat_to_waitlist(_seat_id);
+  END LOOP;
+END;
+$$;
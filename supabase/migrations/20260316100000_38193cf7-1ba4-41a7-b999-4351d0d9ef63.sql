@@ -0,0 +1,120 @@
+-- Priority tiers get to book ahead of the general opening time
+CREATE TABLE public.priority_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  -- How long before a show's booking_opens_at this tier may book
+  early_access_minutes INTEGER NOT NULL DEFAULT 0 CHECK (early_access_minutes >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.priority_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view priority tiers"
+ON public.priority_tiers
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage priority tiers"
+ON public.priority_tiers
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Users without a tier book at the general opening time
+ALTER TABLE public.allowed_users
+  ADD COLUMN tier_id UUID REFERENCES public.priority_tiers(id) ON DELETE SET NULL;
+
+-- Helper function: a user's early access through their tier, 0 without one
+CREATE OR REPLACE FUNCTION public.get_early_access_minutes(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT t.early_access_minutes
+    FROM auth.users u
+    JOIN public.allowed_users a ON a.email = lower(u.email)
+    JOIN public.priority_tiers t ON t.id = a.tier_id
+    WHERE u.id = _user_id
+  ), 0)
+$$;
+
+-- The booking window as seen by the current user, opening early for their tier.
+-- Every booking RPC checks this, so tiers apply to single, group and waitlist bookings alike.
+CREATE OR REPLACE FUNCTION public.booking_state(_show_id UUID)
+RETURNS public.booking_state
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN now() >= COALESCE(booking_closes_at, starts_at) THEN 'closed'
+    WHEN booking_opens_at IS NOT NULL
+      AND now() < booking_opens_at - make_interval(mins => public.get_early_access_minutes(auth.uid()))
+      THEN 'not_open'
+    WHEN booking_paused THEN 'paused'
+    ELSE 'open'
+  END::public.booking_state
+  FROM public.shows WHERE id = _show_id
+$$;
+
+-- The current user's tier, for showing their opening time
+CREATE OR REPLACE FUNCTION public.get_my_tier()
+RETURNS TABLE (id UUID, name TEXT, early_access_minutes INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.name, t.early_access_minutes
+  FROM auth.users u
+  JOIN public.allowed_users a ON a.email = lower(u.email)
+  JOIN public.priority_tiers t ON t.id = a.tier_id
+  WHERE u.id = auth.uid()
+$$;
+
+-- Users now come with their tier
+DROP FUNCTION public.get_all_users_with_roles();
+
+CREATE OR REPLACE FUNCTION public.get_all_users_with_roles()
+RETURNS TABLE(id UUID, email TEXT, role app_role, tier_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    u.email::TEXT,
+    CASE WHEN bool_or(r.role = 'admin') THEN 'admin'::app_role ELSE 'user'::app_role END,
+    a.tier_id
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  LEFT JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY u.id, u.email, a.tier_id
+  ORDER BY u.email
+$$;
+
+-- Users and bookings per tier for a show (admin only); tier_id is NULL for users without a tier
+CREATE OR REPLACE FUNCTION public.get_tier_booking_stats(_show_id UUID)
+RETURNS TABLE(tier_id UUID, users INTEGER, booked INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.tier_id,
+    count(*)::INTEGER,
+    count(b.id)::INTEGER
+  FROM public.allowed_users a
+  LEFT JOIN auth.users u ON lower(u.email) = a.email
+  LEFT JOIN public.bookings b ON b.user_id = u.id AND b.show_id = _show_id
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY a.tier_id
+$$;
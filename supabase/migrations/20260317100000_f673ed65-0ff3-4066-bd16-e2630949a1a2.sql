@@ -0,0 +1,648 @@
+-- Shows either book first come, first served or allocate seats by lottery
+CREATE TYPE public.allocation_mode AS ENUM ('first_come', 'lottery');
+
+ALTER TABLE public.shows
+  ADD COLUMN allocation_mode public.allocation_mode NOT NULL DEFAULT 'first_come',
+  ADD COLUMN lottery_ran_at TIMESTAMPTZ;
+
+-- Tiers double as lottery weights
+ALTER TABLE public.priority_tiers
+  ADD COLUMN lottery_weight NUMERIC NOT NULL DEFAULT 1 CHECK (lottery_weight > 0);
+
+ALTER TYPE public.booking_result ADD VALUE 'lottery_only';
+ALTER TYPE public.group_booking_result ADD VALUE 'lottery_only';
+
+-- One application per user and show, submitted during the booking window
+CREATE TABLE public.lottery_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (show_id, user_id)
+);
+
+-- Ranked preferences: a specific seat, or any seat in a section (zone)
+CREATE TABLE public.lottery_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.lottery_applications(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank >= 1),
+  seat_id UUID REFERENCES public.seats(id) ON DELETE CASCADE,
+  section_index INTEGER,
+  CHECK ((seat_id IS NULL) <> (section_index IS NULL)),
+  UNIQUE (application_id, rank)
+);
+
+-- Outcome of the draw per application; allocated_rank is NULL for a fallback seat
+CREATE TABLE public.lottery_results (
+  application_id UUID PRIMARY KEY REFERENCES public.lottery_applications(id) ON DELETE CASCADE,
+  draw_position INTEGER NOT NULL,
+  weight NUMERIC NOT NULL,
+  seat_id UUID REFERENCES public.seats(id) ON DELETE SET NULL,
+  allocated_rank INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lottery_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lottery_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lottery_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own lottery applications"
+ON public.lottery_applications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view own lottery preferences"
+ON public.lottery_preferences
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.lottery_applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Users can view own lottery results"
+ON public.lottery_results
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.lottery_applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+-- Outcome of submitting an application, mapped to a message by the client
+CREATE TYPE public.lottery_application_result AS ENUM (
+  'ok',
+  'not_lottery',
+  'window_closed',
+  'already_booked',
+  'invalid_preferences'
+);
+
+-- Submit or replace the current user's ranked preferences.
+-- _preferences is an ordered array of { "seat_id": ... } or { "section_index": ... }
+CREATE OR REPLACE FUNCTION public.submit_lottery_application(_show_id UUID, _preferences JSONB)
+RETURNS public.lottery_application_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _application_id UUID;
+  _sections INTEGER;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR _show.allocation_mode <> 'lottery' THEN
+    RETURN 'not_lottery';
+  END IF;
+
+  IF public.booking_state(_show_id) <> 'open' OR _show.lottery_ran_at IS NOT NULL THEN
+    RETURN 'window_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  SELECT jsonb_array_length(definition->'sections') INTO _sections
+  FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- Every preference is a seat of this show or an existing section, each listed once
+  IF jsonb_typeof(_preferences) <> 'array'
+    OR jsonb_array_length(_preferences) = 0
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(_preferences) p
+      WHERE NOT (
+        (p ? 'seat_id' AND EXISTS (
+          SELECT 1 FROM public.seats s
+          WHERE s.id = (p->>'seat_id')::UUID AND s.seat_layout_id = _show.seat_layout_id
+        ))
+        OR (p ? 'section_index' AND (p->>'section_index')::INTEGER BETWEEN 0 AND _sections - 1)
+      )
+    )
+    OR (SELECT count(DISTINCT p) FROM jsonb_array_elements(_preferences) p)
+      <> jsonb_array_length(_preferences)
+  THEN
+    RETURN 'invalid_preferences';
+  END IF;
+
+  INSERT INTO public.lottery_applications (show_id, user_id)
+  VALUES (_show_id, _uid)
+  ON CONFLICT (show_id, user_id) DO UPDATE SET submitted_at = now()
+  RETURNING id INTO _application_id;
+
+  DELETE FROM public.lottery_preferences WHERE application_id = _application_id;
+
+  INSERT INTO public.lottery_preferences (application_id, rank, seat_id, section_index)
+  SELECT _application_id, ordinality, (p->>'seat_id')::UUID, (p->>'section_index')::INTEGER
+  FROM jsonb_array_elements(_preferences) WITH ORDINALITY AS t(p, ordinality);
+
+  RETURN 'ok';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_lottery_application(_show_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.lottery_applications a
+  USING public.shows s
+  WHERE a.show_id = _show_id AND a.user_id = auth.uid()
+    AND s.id = a.show_id AND s.lottery_ran_at IS NULL
+$$;
+
+-- Free seats of a show, best first: mid-hall rows, then closest to the centre of
+-- the hall (or of one section when _section_index is given)
+CREATE OR REPLACE FUNCTION public.get_free_seats_ranked(_show_id UUID, _section_index INTEGER DEFAULT NULL)
+RETURNS SETOF public.seats
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shows sh
+  JOIN public.seat_layout l ON l.id = sh.seat_layout_id
+  JOIN public.seats s ON s.seat_layout_id = l.id
+  WHERE sh.id = _show_id
+    AND NOT s.is_booked
+    AND (_section_index IS NULL OR public.layout_section_index(l.definition, s.col_num) = _section_index)
+  ORDER BY
+    abs(s.row_num - round(l.total_rows * 0.6)),
+    abs(s.col_num - (l.total_columns + 1) / 2.0)
+$$;
+
+-- Weighted draw (admin only). Applicants are ordered by random()^(1/weight), so a
+-- weight of 2 is twice as likely to come first; each then gets their best-ranked
+-- preference still free, or else the best free seat left. Runs once per show.
+CREATE OR REPLACE FUNCTION public.run_lottery_allocation(_show_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _applicant RECORD;
+  _preference RECORD;
+  _seat_id UUID;
+  _rank INTEGER;
+  _allocated INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the lottery';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id FOR UPDATE;
+  IF NOT FOUND OR _show.allocation_mode <> 'lottery' THEN
+    RAISE EXCEPTION 'This show does not allocate by lottery';
+  END IF;
+
+  IF _show.lottery_ran_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The lottery for this show has already run';
+  END IF;
+
+  -- Nobody books around the draw
+  PERFORM 1 FROM public.seats WHERE seat_layout_id = _show.seat_layout_id FOR UPDATE;
+
+  FOR _applicant IN
+    SELECT a.id, a.user_id, w.weight,
+      row_number() OVER (ORDER BY power(random(), 1.0 / w.weight) DESC) AS draw_position
+    FROM public.lottery_applications a
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((
+        SELECT t.lottery_weight
+        FROM auth.users u
+        JOIN public.allowed_users al ON al.email = lower(u.email)
+        JOIN public.priority_tiers t ON t.id = al.tier_id
+        WHERE u.id = a.user_id
+      ), 1) AS weight
+    ) w
+    WHERE a.show_id = _show_id
+    ORDER BY draw_position
+  LOOP
+    _seat_id := NULL;
+    _rank := NULL;
+
+    IF NOT public.user_has_booking_for_show(_applicant.user_id, _show_id) THEN
+      FOR _preference IN
+        SELECT * FROM public.lottery_preferences
+        WHERE application_id = _applicant.id
+        ORDER BY rank
+      LOOP
+        IF _preference.seat_id IS NOT NULL THEN
+          SELECT id INTO _seat_id FROM public.seats
+          WHERE id = _preference.seat_id AND NOT is_booked;
+        ELSE
+          SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, _preference.section_index) LIMIT 1;
+        END IF;
+
+        IF _seat_id IS NOT NULL THEN
+          _rank := _preference.rank;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      -- None of their preferences left: best remaining seat, if any
+      IF _seat_id IS NULL THEN
+        SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id) LIMIT 1;
+      END IF;
+
+      IF _seat_id IS NOT NULL THEN
+        INSERT INTO public.bookings (user_id, seat_id, show_id)
+        VALUES (_applicant.user_id, _seat_id, _show_id);
+        _allocated := _allocated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.lottery_results (application_id, draw_position, weight, seat_id, allocated_rank)
+    VALUES (_applicant.id, _applicant.draw_position, _applicant.weight, _seat_id, _rank);
+  END LOOP;
+
+  UPDATE public.shows SET lottery_ran_at = now() WHERE id = _show_id;
+
+  RETURN _allocated;
+END;
+$$;
+
+-- Who got which preference rank (admin only)
+CREATE OR REPLACE FUNCTION public.get_lottery_report(_show_id UUID)
+RETURNS TABLE (
+  email TEXT,
+  draw_position INTEGER,
+  weight NUMERIC,
+  preference_count INTEGER,
+  allocated_rank INTEGER,
+  row_num INTEGER,
+  col_num INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.email::TEXT,
+    r.draw_position,
+    r.weight,
+    (SELECT count(*)::INTEGER FROM public.lottery_preferences p WHERE p.application_id = a.id),
+    r.allocated_rank,
+    s.row_num,
+    s.col_num
+  FROM public.lottery_applications a
+  JOIN public.lottery_results r ON r.application_id = a.id
+  JOIN auth.users u ON u.id = a.user_id
+  LEFT JOIN public.seats s ON s.id = r.seat_id
+  WHERE a.show_id = _show_id AND public.has_role(auth.uid(), 'admin')
+  ORDER BY r.draw_position
+$$;
+
+-- First-come booking paths step aside while a show allocates by lottery
+
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF _seat.is_booked THEN
+    IF EXISTS (SELECT 1 FROM public.bookings WHERE seat_id = _seat_id) THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- A booked seat without a booking row was frozen by an admin
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.id = ANY(_seat_ids) AND s.is_booked
+      AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.seat_id = s.id)
+  ) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF EXISTS (SELECT 1 FROM unnest(_seat_ids) s WHERE NOT public.seat_is_available(s)) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  PERFORM 1 FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF (public.booking_state(_show_id) <> 'open'
+      OR (SELECT allocation_mode FROM public.shows WHERE id = _show_id) = 'lottery')
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show
+  DELETE FROM public.seat_holds
+  WHERE user_id = auth.uid() AND show_id = _show_id AND seat_id <> _seat_id;
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR public.booking_state(_show.id) <> 'open' OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, or someone is already holding it
+  IF EXISTS (SELECT 1 FROM public.seats WHERE id = _seat_id AND is_booked)
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _entry FROM public.waitlist_entries
+  WHERE show_id = _show.id AND status = 'waiting'
+  ORDER BY joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(_show_id UUID)
+RETURNS public.waitlist_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR public.booking_state(_show_id) <> 'open' OR _show.allocation_mode = 'lottery' THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND show_id = _show_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN 'already_waiting';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE seat_layout_id = _show.seat_layout_id AND public.seat_is_available(id)
+  ) THEN
+    RETURN 'seats_available';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (show_id, user_id) VALUES (_show_id, _uid);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_waiting';
+END;
+$$;
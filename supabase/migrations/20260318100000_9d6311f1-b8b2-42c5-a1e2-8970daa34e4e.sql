@@ -0,0 +1,614 @@
+-- Seat status set by admins. Booked and held are not stored here: is_booked is
+-- kept in step with bookings by triggers and holds live in seat_holds.
+CREATE TYPE public.seat_status AS ENUM (
+  'available',
+  'blocked',
+  'vip_reserved',
+  'wheelchair',
+  'restricted_view'
+);
+
+ALTER TABLE public.seats
+  ADD COLUMN status public.seat_status NOT NULL DEFAULT 'available',
+  -- Optional free-text grouping, e.g. "Premium" or "Balcony"
+  ADD COLUMN category TEXT;
+
+-- Seats frozen by an admin were booked without a booking row
+UPDATE public.seats s
+SET status = 'blocked', is_booked = false
+WHERE s.is_booked
+  AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.seat_id = s.id);
+
+-- Blocked seats are never bookable; VIP seats are only assigned by admins
+CREATE OR REPLACE FUNCTION public.seat_status_is_bookable(_status public.seat_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status NOT IN ('blocked', 'vip_reserved')
+$$;
+
+CREATE OR REPLACE FUNCTION public.seat_is_available(_seat_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT s.is_booked
+    AND public.seat_status_is_bookable(s.status)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.seat_holds h
+      WHERE h.seat_id = s.id
+        AND h.expires_at > now()
+        AND h.user_id IS DISTINCT FROM auth.uid()
+    )
+  FROM public.seats s
+  WHERE s.id = _seat_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.is_booked THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.change_booking_seat(_booking_id UUID, _seat_id UUID)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _max_changes INTEGER;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_booking.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT max_seat_changes INTO _max_changes FROM public.shows WHERE id = _booking.show_id;
+  IF _booking.change_count >= _max_changes THEN
+    RETURN 'change_limit_reached';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR public.get_show_for_seat(_seat_id) IS DISTINCT FROM _booking.show_id THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.id = _booking.seat_id THEN
+    RETURN 'ok';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.is_booked THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- on_booking_updated frees the old seat and freezes the new one
+  UPDATE public.bookings
+  SET seat_id = _seat_id, change_count = change_count + 1
+  WHERE id = _booking_id;
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'seat_taken';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.id = ANY(_seat_ids) AND NOT public.seat_status_is_bookable(s.status)
+  ) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF EXISTS (SELECT 1 FROM unnest(_seat_ids) s WHERE NOT public.seat_is_available(s)) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR public.booking_state(_show.id) <> 'open' OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, blocked, or someone is already holding it
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE id = _seat_id AND (is_booked OR NOT public.seat_status_is_bookable(status))
+  )
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _entry FROM public.waitlist_entries
+  WHERE show_id = _show.id AND status = 'waiting'
+  ORDER BY joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_waitlist_offers()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+  _seat_id UUID;
+BEGIN
+  FOR _entry IN
+    SELECT * FROM public.waitlist_entries
+    WHERE status = 'offered' AND (offer_expires_at <= now() OR offered_seat_id IS NULL)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.waitlist_entries SET status = 'expired' WHERE id = _entry.id;
+
+    IF _entry.offered_seat_id IS NOT NULL THEN
+      DELETE FROM public.seat_holds
+      WHERE seat_id = _entry.offered_seat_id AND user_id = _entry.user_id;
+
+      PERFORM public.offer_seat_to_waitlist(_entry.offered_seat_id);
+    END IF;
+  END LOOP;
+
+  FOR _seat_id IN
+    SELECT DISTINCT s.id
+    FROM public.waitlist_entries w
+    JOIN public.shows sh ON sh.id = w.show_id
+    JOIN public.seats s ON s.seat_layout_id = sh.seat_layout_id
+    WHERE w.status = 'waiting'
+      AND NOT s.is_booked
+      AND public.seat_status_is_bookable(s.status)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.seat_holds h WHERE h.seat_id = s.id AND h.expires_at > now()
+      )
+  LOOP
+    PERFORM public.offer_seat_to_waitlist(_seat_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_free_seats_ranked(_show_id UUID, _section_index INTEGER DEFAULT NULL)
+RETURNS SETOF public.seats
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shows sh
+  JOIN public.seat_layout l ON l.id = sh.seat_layout_id
+  JOIN public.seats s ON s.seat_layout_id = l.id
+  WHERE sh.id = _show_id
+    AND NOT s.is_booked
+    AND public.seat_status_is_bookable(s.status)
+    AND (_section_index IS NULL OR public.layout_section_index(l.definition, s.col_num) = _section_index)
+  ORDER BY
+    abs(s.row_num - round(l.total_rows * 0.6)),
+    abs(s.col_num - (l.total_columns + 1) / 2.0)
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_lottery_allocation(_show_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _applicant RECORD;
+  _preference RECORD;
+  _seat_id UUID;
+  _rank INTEGER;
+  _allocated INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the lottery';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id FOR UPDATE;
+  IF NOT FOUND OR _show.allocation_mode <> 'lottery' THEN
+    RAISE EXCEPTION 'This show does not allocate by lottery';
+  END IF;
+
+  IF _show.lottery_ran_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The lottery for this show has already run';
+  END IF;
+
+  -- Nobody books around the draw
+  PERFORM 1 FROM public.seats WHERE seat_layout_id = _show.seat_layout_id FOR UPDATE;
+
+  FOR _applicant IN
+    SELECT a.id, a.user_id, w.weight,
+      row_number() OVER (ORDER BY power(random(), 1.0 / w.weight) DESC) AS draw_position
+    FROM public.lottery_applications a
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((
+        SELECT t.lottery_weight
+        FROM auth.users u
+        JOIN public.allowed_users al ON al.email = lower(u.email)
+        JOIN public.priority_tiers t ON t.id = al.tier_id
+        WHERE u.id = a.user_id
+      ), 1) AS weight
+    ) w
+    WHERE a.show_id = _show_id
+    ORDER BY draw_position
+  LOOP
+    _seat_id := NULL;
+    _rank := NULL;
+
+    IF NOT public.user_has_booking_for_show(_applicant.user_id, _show_id) THEN
+      FOR _preference IN
+        SELECT * FROM public.lottery_preferences
+        WHERE application_id = _applicant.id
+        ORDER BY rank
+      LOOP
+        IF _preference.seat_id IS NOT NULL THEN
+          SELECT id INTO _seat_id FROM public.seats
+          WHERE id = _preference.seat_id AND NOT is_booked
+            AND public.seat_status_is_bookable(status);
+        ELSE
+          SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, _preference.section_index) LIMIT 1;
+        END IF;
+
+        IF _seat_id IS NOT NULL THEN
+          _rank := _preference.rank;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      -- None of their preferences left: best remaining seat, if any
+      IF _seat_id IS NULL THEN
+        SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id) LIMIT 1;
+      END IF;
+
+      IF _seat_id IS NOT NULL THEN
+        INSERT INTO public.bookings (user_id, seat_id, show_id)
+        VALUES (_applicant.user_id, _seat_id, _show_id);
+        _allocated := _allocated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.lottery_results (application_id, draw_position, weight, seat_id, allocated_rank)
+    VALUES (_applicant.id, _applicant.draw_position, _applicant.weight, _seat_id, _rank);
+  END LOOP;
+
+  UPDATE public.shows SET lottery_ran_at = now() WHERE id = _show_id;
+
+  RETURN _allocated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_seats_for_layout(_layout_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rows INTEGER;
+  _cols INTEGER;
+  _def JSONB;
+  r INTEGER;
+  c INTEGER;
+BEGIN
+  SELECT total_rows, definition INTO _rows, _def
+  FROM public.seat_layout WHERE id = _layout_id;
+
+  SELECT COALESCE(SUM((s->>'columns')::INTEGER), 0) INTO _cols
+  FROM jsonb_array_elements(_def->'sections') s;
+
+  -- Keep total_columns in step with the sections
+  UPDATE public.seat_layout
+  SET total_columns = _cols, updated_at = now()
+  WHERE id = _layout_id;
+
+  -- Delete unbooked seats that are no longer part of the layout; the rest keep
+  -- their id, status and category
+  DELETE FROM public.seats
+  WHERE seat_layout_id = _layout_id AND is_booked = false
+    AND NOT public.layout_has_seat(_def, _rows, row_num, col_num);
+
+  -- Insert new seats (skip existing ones)
+  FOR r IN 1.._rows LOOP
+    FOR c IN 1.._cols LOOP
+      IF public.layout_has_seat(_def, _rows, r, c) THEN
+        INSERT INTO public.seats (seat_layout_id, row_num, col_num)
+        VALUES (_layout_id, r, c)
+        ON CONFLICT (seat_layout_id, row_num, col_num) DO NOTHING;
+      END IF;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_layout_change(
+  _layout_id UUID,
+  _rows INTEGER,
+  _definition JSONB,
+  _relocations JSONB DEFAULT '[]'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _relocation JSONB;
+  _target UUID;
+  _stranded INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change seat layouts';
+  END IF;
+
+  PERFORM 1 FROM public.seat_layout WHERE id = _layout_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Seat layout not found';
+  END IF;
+
+  UPDATE public.seat_layout
+  SET total_rows = _rows, definition = _definition
+  WHERE id = _layout_id;
+
+  PERFORM public.generate_seats_for_layout(_layout_id);
+
+  FOR _relocation IN SELECT value FROM jsonb_array_elements(_relocations) LOOP
+    SELECT id INTO _target FROM public.seats
+    WHERE seat_layout_id = _layout_id
+      AND row_num = (_relocation->>'row')::INTEGER
+      AND col_num = (_relocation->>'col')::INTEGER
+      AND NOT is_booked
+      AND status <> 'blocked'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Seat at row %, column % is not free for relocation',
+        _relocation->>'row', _relocation->>'col';
+    END IF;
+
+    -- on_booking_updated frees the old seat and freezes the new one
+    UPDATE public.bookings
+    SET seat_id = _target
+    WHERE id = (_relocation->>'booking_id')::UUID
+      AND seat_id IN (SELECT id FROM public.seats WHERE seat_layout_id = _layout_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking % does not belong to this layout', _relocation->>'booking_id';
+    END IF;
+  END LOOP;
+
+  SELECT count(*) INTO _stranded
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  WHERE s.seat_layout_id = _layout_id
+    AND NOT public.layout_has_seat(_definition, _rows, s.row_num, s.col_num);
+
+  IF _stranded > 0 THEN
+    RAISE EXCEPTION '% booking(s) fall outside the new layout and must be relocated', _stranded;
+  END IF;
+
+  -- Remove remaining seats outside the layout, including admin-frozen ones
+  DELETE FROM public.seats
+  WHERE seat_layout_id = _layout_id
+    AND NOT public.layout_has_seat(_definition, _rows, row_num, col_num);
+END;
+$$;
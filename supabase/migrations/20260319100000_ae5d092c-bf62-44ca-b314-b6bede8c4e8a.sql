@@ -0,0 +1,766 @@
+-- Accessible seat types
+ALTER TYPE public.seat_status ADD VALUE 'easy_access';
+
+ALTER TYPE public.booking_result ADD VALUE 'accessible_seat';
+ALTER TYPE public.booking_change_result ADD VALUE 'accessible_seat';
+ALTER TYPE public.group_booking_result ADD VALUE 'accessible_seat';
+
+-- Users ask for accessible seating themselves; admins can change it too
+ALTER TABLE public.allowed_users
+  ADD COLUMN needs_accessible_seating BOOLEAN NOT NULL DEFAULT false;
+
+-- A companion seat is a second booking of the same user, next to their accessible seat
+ALTER TABLE public.bookings
+  ADD COLUMN companion_for UUID REFERENCES public.bookings(id) ON DELETE CASCADE;
+
+ALTER TABLE public.bookings DROP CONSTRAINT bookings_user_id_show_id_key;
+CREATE UNIQUE INDEX bookings_user_id_show_id_key
+  ON public.bookings (user_id, show_id) WHERE companion_for IS NULL;
+CREATE UNIQUE INDEX bookings_companion_for_key ON public.bookings (companion_for);
+
+-- Compared as text: the new enum value cannot be used before this migration commits
+CREATE OR REPLACE FUNCTION public.seat_status_is_accessible(_status public.seat_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _status::TEXT IN ('wheelchair', 'easy_access')
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_needs_accessible_seating(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT a.needs_accessible_seating
+    FROM auth.users u
+    JOIN public.allowed_users a ON a.email = lower(u.email)
+    WHERE u.id = _user_id
+  ), false)
+$$;
+
+-- Accessible seats are kept for users who asked for accessible seating
+CREATE OR REPLACE FUNCTION public.seat_status_is_bookable_by(_status public.seat_status, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.seat_status_is_bookable(_status)
+    AND (NOT public.seat_status_is_accessible(_status) OR public.user_needs_accessible_seating(_user_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_accessible_seating()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_needs_accessible_seating(auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_my_accessible_seating(_needed BOOLEAN)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.allowed_users a
+  SET needs_accessible_seating = _needed
+  FROM auth.users u
+  WHERE u.id = auth.uid() AND a.email = lower(u.email)
+$$;
+
+-- Users now come with their accessibility flag
+DROP FUNCTION public.get_all_users_with_roles();
+
+CREATE OR REPLACE FUNCTION public.get_all_users_with_roles()
+RETURNS TABLE(id UUID, email TEXT, role app_role, tier_id UUID, needs_accessible_seating BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    u.id,
+    u.email::TEXT,
+    CASE WHEN bool_or(r.role = 'admin') THEN 'admin'::app_role ELSE 'user'::app_role END,
+    a.tier_id,
+    COALESCE(a.needs_accessible_seating, false)
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  LEFT JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY u.id, u.email, a.tier_id, a.needs_accessible_seating
+  ORDER BY u.email
+$$;
+
+-- Bookings now say which seat is a companion seat
+DROP FUNCTION public.get_all_bookings_with_email(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_all_bookings_with_email(_show_id UUID)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  email TEXT,
+  seat_id UUID,
+  show_id UUID,
+  row_num INTEGER,
+  col_num INTEGER,
+  companion_for UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id, b.user_id, u.email::TEXT, b.seat_id, b.show_id, s.row_num, s.col_num, b.companion_for
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.show_id = _show_id
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY s.row_num, s.col_num
+$$;
+
+-- Outcome of booking a companion seat, mapped to a message by the client
+CREATE TYPE public.companion_booking_result AS ENUM (
+  'ok',
+  'seat_taken',
+  'seat_blocked',
+  'not_adjacent',
+  'not_eligible',
+  'already_booked',
+  'changes_closed',
+  'not_found'
+);
+
+-- Book the seat next to the user's accessible seat for someone accompanying them
+CREATE OR REPLACE FUNCTION public.book_companion_seat(_booking_id UUID, _seat_id UUID)
+RETURNS public.companion_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _booking public.bookings%ROWTYPE;
+  _own_seat public.seats%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _definition JSONB;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = _uid AND companion_for IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_booking.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT * INTO _own_seat FROM public.seats WHERE id = _booking.seat_id;
+  IF NOT public.seat_status_is_accessible(_own_seat.status)
+    OR NOT public.user_needs_accessible_seating(_uid)
+  THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE companion_for = _booking_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR _seat.seat_layout_id <> _own_seat.seat_layout_id THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _seat.seat_layout_id;
+
+  -- Right next to the accessible seat, with no aisle in between
+  IF _seat.row_num <> _own_seat.row_num
+    OR abs(_seat.col_num - _own_seat.col_num) <> 1
+    OR public.layout_section_index(_definition, _seat.col_num)
+      <> public.layout_section_index(_definition, _own_seat.col_num)
+  THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _uid) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id, companion_for)
+  VALUES (_uid, _seat_id, _booking.show_id, _booking_id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_companion_for_key' THEN
+      RETURN 'already_booked';
+    END IF;
+    RETURN 'seat_taken';
+END;
+$$;
+
+-- Booking paths keep accessible seats for users who need them
+
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _uid) THEN
+    RETURN 'accessible_seat';
+  END IF;
+
+  IF _seat.is_booked THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.change_booking_seat(_booking_id UUID, _seat_id UUID)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _max_changes INTEGER;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid() AND companion_for IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_booking.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT max_seat_changes INTO _max_changes FROM public.shows WHERE id = _booking.show_id;
+  IF _booking.change_count >= _max_changes THEN
+    RETURN 'change_limit_reached';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR public.get_show_for_seat(_seat_id) IS DISTINCT FROM _booking.show_id THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.id = _booking.seat_id THEN
+    RETURN 'ok';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable_by(_seat.status, auth.uid()) THEN
+    RETURN 'accessible_seat';
+  END IF;
+
+  IF _seat.is_booked THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- on_booking_updated frees the old seat and freezes the new one
+  UPDATE public.bookings
+  SET seat_id = _seat_id, change_count = change_count + 1
+  WHERE id = _booking_id;
+
+  -- The companion seat belonged next to the old seat
+  DELETE FROM public.bookings WHERE companion_for = _booking_id;
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'seat_taken';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  CASE public.booking_state(_show.id)
+    WHEN 'not_open' THEN RETURN 'booking_not_open';
+    WHEN 'paused' THEN RETURN 'booking_paused';
+    WHEN 'closed' THEN RETURN 'booking_closed';
+    ELSE NULL;
+  END CASE;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.id = ANY(_seat_ids) AND NOT public.seat_status_is_bookable(s.status)
+  ) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  -- Accessible seats only go to colleagues who asked for one
+  IF EXISTS (
+    SELECT 1 FROM unnest(_seat_ids, _user_ids) AS m(seat_id, user_id)
+    JOIN public.seats s ON s.id = m.seat_id
+    WHERE NOT public.seat_status_is_bookable_by(s.status, m.user_id)
+  ) THEN
+    RETURN 'accessible_seat';
+  END IF;
+
+  -- Booked, or held by someone else
+  IF EXISTS (SELECT 1 FROM unnest(_seat_ids) s WHERE NOT public.seat_is_available(s)) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  PERFORM 1 FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF (public.booking_state(_show_id) <> 'open'
+      OR (SELECT allocation_mode FROM public.shows WHERE id = _show_id) = 'lottery')
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF NOT public.seat_is_available(_seat_id)
+    OR NOT public.seat_status_is_bookable_by(
+      (SELECT status FROM public.seats WHERE id = _seat_id), auth.uid()
+    )
+  THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show
+  DELETE FROM public.seat_holds
+  WHERE user_id = auth.uid() AND show_id = _show_id AND seat_id <> _seat_id;
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR public.booking_state(_show.id) <> 'open' OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, blocked, or someone is already holding it
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE id = _seat_id AND (is_booked OR NOT public.seat_status_is_bookable(status))
+  )
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  -- First in line who may sit here
+  SELECT * INTO _entry FROM public.waitlist_entries w
+  WHERE w.show_id = _show.id AND w.status = 'waiting'
+    AND public.seat_status_is_bookable_by(
+      (SELECT status FROM public.seats WHERE id = _seat_id), w.user_id
+    )
+  ORDER BY w.joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(_show_id UUID)
+RETURNS public.waitlist_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND OR public.booking_state(_show_id) <> 'open' OR _show.allocation_mode = 'lottery' THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND show_id = _show_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN 'already_waiting';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE seat_layout_id = _show.seat_layout_id AND public.seat_is_available(id)
+      AND public.seat_status_is_bookable_by(status, _uid)
+  ) THEN
+    RETURN 'seats_available';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (show_id, user_id) VALUES (_show_id, _uid);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_waiting';
+END;
+$$;
+
+-- With _user_id, only the seats that user may book
+DROP FUNCTION public.get_free_seats_ranked(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_free_seats_ranked(
+  _show_id UUID,
+  _section_index INTEGER DEFAULT NULL,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.seats
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shows sh
+  JOIN public.seat_layout l ON l.id = sh.seat_layout_id
+  JOIN public.seats s ON s.seat_layout_id = l.id
+  WHERE sh.id = _show_id
+    AND NOT s.is_booked
+    AND public.seat_status_is_bookable(s.status)
+    AND (_user_id IS NULL OR public.seat_status_is_bookable_by(s.status, _user_id))
+    AND (_section_index IS NULL OR public.layout_section_index(l.definition, s.col_num) = _section_index)
+  ORDER BY
+    abs(s.row_num - round(l.total_rows * 0.6)),
+    abs(s.col_num - (l.total_columns + 1) / 2.0)
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_lottery_allocation(_show_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _applicant RECORD;
+  _preference RECORD;
+  _seat_id UUID;
+  _rank INTEGER;
+  _allocated INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the lottery';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id FOR UPDATE;
+  IF NOT FOUND OR _show.allocation_mode <> 'lottery' THEN
+    RAISE EXCEPTION 'This show does not allocate by lottery';
+  END IF;
+
+  IF _show.lottery_ran_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The lottery for this show has already run';
+  END IF;
+
+  -- Nobody books around the draw
+  PERFORM 1 FROM public.seats WHERE seat_layout_id = _show.seat_layout_id FOR UPDATE;
+
+  FOR _applicant IN
+    SELECT a.id, a.user_id, w.weight,
+      row_number() OVER (ORDER BY power(random(), 1.0 / w.weight) DESC) AS draw_position
+    FROM public.lottery_applications a
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((
+        SELECT t.lottery_weight
+        FROM auth.users u
+        JOIN public.allowed_users al ON al.email = lower(u.email)
+        JOIN public.priority_tiers t ON t.id = al.tier_id
+        WHERE u.id = a.user_id
+      ), 1) AS weight
+    ) w
+    WHERE a.show_id = _show_id
+    ORDER BY draw_position
+  LOOP
+    _seat_id := NULL;
+    _rank := NULL;
+
+    IF NOT public.user_has_booking_for_show(_applicant.user_id, _show_id) THEN
+      FOR _preference IN
+        SELECT * FROM public.lottery_preferences
+        WHERE application_id = _applicant.id
+        ORDER BY rank
+      LOOP
+        IF _preference.seat_id IS NOT NULL THEN
+          SELECT id INTO _seat_id FROM public.seats
+          WHERE id = _preference.seat_id AND NOT is_booked
+            AND public.seat_status_is_bookable_by(status, _applicant.user_id);
+        ELSE
+          SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, _preference.section_index, _applicant.user_id) LIMIT 1;
+        END IF;
+
+        IF _seat_id IS NOT NULL THEN
+          _rank := _preference.rank;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      -- None of their preferences left: best remaining seat, if any
+      IF _seat_id IS NULL THEN
+        SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, NULL, _applicant.user_id) LIMIT 1;
+      END IF;
+
+      IF _seat_id IS NOT NULL THEN
+        INSERT INTO public.bookings (user_id, seat_id, show_id)
+        VALUES (_applicant.user_id, _seat_id, _show_id);
+        _allocated := _allocated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.lottery_results (application_id, draw_position, weight, seat_id, allocated_rank)
+    VALUES (_applicant.id, _applicant.draw_position, _applicant.weight, _seat_id, _rank);
+  END LOOP;
+
+  UPDATE public.shows SET lottery_ran_at = now() WHERE id = _show_id;
+
+  RETURN _allocated;
+END;
+$$;
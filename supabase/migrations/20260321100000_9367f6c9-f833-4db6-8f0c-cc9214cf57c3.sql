@@ -0,0 +1,85 @@
+-- Secret for signing e-tickets. No policies, so only SECURITY DEFINER functions can read it
+CREATE TABLE public.ticket_signing_key (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  secret BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_signing_key ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ticket_signing_key DEFAULT VALUES;
+
+-- Same "A3" style label the client shows: column letter, then row number
+CREATE OR REPLACE FUNCTION public.seat_label(_row INTEGER, _col INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT chr(64 + _col) || _row
+$$;
+
+-- What a ticket vouches for, as it stands now: version, booking, seat, show and email
+CREATE OR REPLACE FUNCTION public.ticket_payload(_booking_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT concat_ws('|', 'PST1', b.id, public.seat_label(s.row_num, s.col_num), b.show_id, lower(u.email))
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.id = _booking_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.sign_ticket(_payload TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(convert_to(_payload, 'UTF8'), secret, 'sha256'), 'hex')
+  FROM public.ticket_signing_key
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ticket_payload(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sign_ticket(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The caller's tickets for a show: their seat and any companion seat.
+-- A seat change gives a new code, so an old screenshot no longer verifies.
+-- Group invitations get a ticket once accepted.
+CREATE OR REPLACE FUNCTION public.get_my_tickets(_show_id UUID)
+RETURNS TABLE(
+  booking_id UUID,
+  seat_label TEXT,
+  show_title TEXT,
+  starts_at TIMESTAMPTZ,
+  email TEXT,
+  is_companion BOOLEAN,
+  code TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    public.seat_label(s.row_num, s.col_num),
+    sh.title,
+    sh.starts_at,
+    u.email::TEXT,
+    b.companion_for IS NOT NULL,
+    p.payload || '|' || public.sign_ticket(p.payload)
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN public.shows sh ON sh.id = b.show_id
+  JOIN auth.users u ON u.id = b.user_id
+  CROSS JOIN LATERAL (SELECT public.ticket_payload(b.id) AS payload) p
+  WHERE b.show_id = _show_id
+    AND b.user_id = auth.uid()
+    AND b.group_status IS DISTINCT FROM 'pending'
+  ORDER BY b.companion_for NULLS FIRST
+$$;
@@ -0,0 +1,262 @@
+-- Ushers check guests in at the door
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'usher';
+
+ALTER TABLE public.bookings
+  ADD COLUMN checked_in_at TIMESTAMPTZ,
+  ADD COLUMN checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Admins can do everything ushers can. Compared as text: the new enum value
+-- cannot be used as a literal in the transaction that adds it.
+CREATE OR REPLACE FUNCTION public.can_check_in(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role::TEXT IN ('admin', 'usher')
+  )
+$$;
+
+-- Users hold a single role; setting one replaces the others
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id AND role <> _role;
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+-- Highest role wins: admin, then usher, then user
+CREATE OR REPLACE FUNCTION public.get_all_users_with_roles()
+RETURNS TABLE(id UUID, email TEXT, role app_role, tier_id UUID, needs_accessible_seating BOOLEAN)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    CASE
+      WHEN bool_or(r.role = 'admin') THEN 'admin'::app_role
+      WHEN bool_or(r.role = 'usher') THEN 'usher'::app_role
+      ELSE 'user'::app_role
+    END,
+    a.tier_id,
+    COALESCE(a.needs_accessible_seating, false)
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  LEFT JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY u.id, u.email, a.tier_id, a.needs_accessible_seating
+  ORDER BY u.email;
+END;
+$$;
+
+-- Bookings now say whether the guest has arrived
+DROP FUNCTION public.get_all_bookings_with_email(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_all_bookings_with_email(_show_id UUID)
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  email TEXT,
+  seat_id UUID,
+  show_id UUID,
+  row_num INTEGER,
+  col_num INTEGER,
+  companion_for UUID,
+  checked_in_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id, b.user_id, u.email::TEXT, b.seat_id, b.show_id, s.row_num, s.col_num, b.companion_for, b.checked_in_at
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.show_id = _show_id
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY s.row_num, s.col_num
+$$;
+
+-- Outcome of checking a guest in, mapped to a warning by the client
+CREATE TYPE public.check_in_result AS ENUM (
+  'ok',
+  'already_checked_in',
+  'invalid_signature',
+  'wrong_show',
+  'outdated_ticket',
+  'not_accepted',
+  'not_found'
+);
+
+-- Marks a booking as arrived. Always returns one row with whatever is known
+-- about the booking, so the usher can see whose ticket it is.
+CREATE OR REPLACE FUNCTION public.check_in_booking(_show_id UUID, _booking_id UUID)
+RETURNS TABLE(
+  result public.check_in_result,
+  booking_id UUID,
+  email TEXT,
+  seat_label TEXT,
+  checked_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+BEGIN
+  IF NOT public.can_check_in(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT
+    b.id,
+    b.show_id,
+    b.group_status,
+    b.checked_in_at,
+    u.email::TEXT AS email,
+    public.seat_label(s.row_num, s.col_num) AS seat_label
+  INTO _booking
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.id = _booking_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::public.check_in_result, _booking_id, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _booking.show_id <> _show_id THEN
+    RETURN QUERY SELECT 'wrong_show'::public.check_in_result, _booking.id, _booking.email, _booking.seat_label, _booking.checked_in_at;
+    RETURN;
+  END IF;
+
+  -- A group invitation the guest never accepted
+  IF _booking.group_status = 'pending' THEN
+    RETURN QUERY SELECT 'not_accepted'::public.check_in_result, _booking.id, _booking.email, _booking.seat_label, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF _booking.checked_in_at IS NOT NULL THEN
+    RETURN QUERY SELECT 'already_checked_in'::public.check_in_result, _booking.id, _booking.email, _booking.seat_label, _booking.checked_in_at;
+    RETURN;
+  END IF;
+
+  UPDATE public.bookings b
+  SET checked_in_at = now(), checked_in_by = auth.uid()
+  WHERE b.id = _booking_id;
+
+  RETURN QUERY SELECT 'ok'::public.check_in_result, _booking.id, _booking.email, _booking.seat_label, now();
+END;
+$$;
+
+-- Checks in from a scanned e-ticket. The code is trusted only when its
+-- signature verifies and it still matches the booking as it stands now.
+CREATE OR REPLACE FUNCTION public.check_in_ticket(_show_id UUID, _code TEXT)
+RETURNS TABLE(
+  result public.check_in_result,
+  booking_id UUID,
+  email TEXT,
+  seat_label TEXT,
+  checked_in_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _parts TEXT[] := string_to_array(_code, '|');
+  _payload TEXT;
+  _booking_id UUID;
+BEGIN
+  IF NOT public.can_check_in(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF array_length(_parts, 1) IS DISTINCT FROM 6 OR _parts[1] <> 'PST1' THEN
+    RETURN QUERY SELECT 'invalid_signature'::public.check_in_result, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  _payload := array_to_string(_parts[1:5], '|');
+  IF public.sign_ticket(_payload) IS DISTINCT FROM _parts[6] THEN
+    RETURN QUERY SELECT 'invalid_signature'::public.check_in_result, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Signed by us, so the fields are well formed
+  _booking_id := _parts[2]::UUID;
+
+  IF _parts[4]::UUID <> _show_id THEN
+    RETURN QUERY SELECT 'wrong_show'::public.check_in_result, _booking_id, _parts[5], _parts[3], NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- The seat was changed or released after this ticket was issued
+  IF public.ticket_payload(_booking_id) IS DISTINCT FROM _payload THEN
+    RETURN QUERY SELECT
+      CASE WHEN EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = _booking_id)
+        THEN 'outdated_ticket' ELSE 'not_found' END::public.check_in_result,
+      _booking_id, _parts[5], _parts[3], NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.check_in_booking(_show_id, _booking_id);
+END;
+$$;
+
+-- Manual lookup at the door, by part of an email or an exact seat label
+CREATE OR REPLACE FUNCTION public.search_show_bookings(_show_id UUID, _query TEXT)
+RETURNS TABLE(
+  booking_id UUID,
+  email TEXT,
+  seat_label TEXT,
+  is_companion BOOLEAN,
+  group_status public.group_member_status,
+  checked_in_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    u.email::TEXT,
+    public.seat_label(s.row_num, s.col_num),
+    b.companion_for IS NOT NULL,
+    b.group_status,
+    b.checked_in_at
+  FROM public.bookings b
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users u ON u.id = b.user_id
+  WHERE b.show_id = _show_id
+    AND public.can_check_in(auth.uid())
+    AND length(trim(_query)) > 0
+    AND (u.email ILIKE '%' || trim(_query) || '%'
+      OR public.seat_label(s.row_num, s.col_num) = upper(trim(_query)))
+  ORDER BY s.row_num, s.col_num
+  LIMIT 20
+$$;
@@ -0,0 +1,311 @@
+-- Where seats released from no-shows go: offered down the waitlist, or left
+-- free for ushers to give to walk-ins at the door
+CREATE TYPE public.no_show_release_target AS ENUM ('waitlist', 'walk_ins');
+
+-- Bookings nobody checked in for are released this long after the show
+-- starts; NULL (the default) keeps them for the whole show
+ALTER TABLE public.shows
+  ADD COLUMN no_show_grace_minutes INTEGER CHECK (no_show_grace_minutes >= 0),
+  ADD COLUMN no_show_release_to public.no_show_release_target NOT NULL DEFAULT 'waitlist';
+
+-- One row per released booking, kept after the booking is gone
+CREATE TABLE public.no_shows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  seat_label TEXT NOT NULL,
+  released_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, show_id)
+);
+
+ALTER TABLE public.no_shows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own no-shows, admins all"
+ON public.no_shows FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Releases bookings still not checked in once the grace period is over.
+-- Shows nobody was checked in at did not use check-in, so nobody there is
+-- treated as absent. Unaccepted group invitations and companion seats are
+-- released without counting against the user. Seats booked after the grace
+-- period, such as released seats claimed from the waitlist, are never released,
+-- and neither is a seat whose companion was checked in. Returns the number released.
+CREATE OR REPLACE FUNCTION public.release_no_shows()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+  _released INTEGER := 0;
+BEGIN
+  FOR _booking IN
+    SELECT b.id, b.user_id, b.show_id, b.group_status, b.companion_for,
+      public.seat_label(s.row_num, s.col_num) AS seat_label
+    FROM public.bookings b
+    JOIN public.shows sh ON sh.id = b.show_id
+    JOIN public.seats s ON s.id = b.seat_id
+    WHERE b.checked_in_at IS NULL
+      AND sh.no_show_grace_minutes IS NOT NULL
+      AND now() >= sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      AND b.created_at < sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      -- Deleting the seat would take the companion booking with it
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.companion_for = b.id AND c.checked_in_at IS NOT NULL
+      )
+      AND EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.show_id = sh.id AND c.checked_in_at IS NOT NULL
+      )
+    ORDER BY b.companion_for NULLS FIRST
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    IF _booking.companion_for IS NULL AND _booking.group_status IS DISTINCT FROM 'pending' THEN
+      INSERT INTO public.no_shows (user_id, show_id, seat_label)
+      VALUES (_booking.user_id, _booking.show_id, _booking.seat_label)
+      ON CONFLICT (user_id, show_id) DO NOTHING;
+    END IF;
+
+    -- Frees the seat, which offers it on to the waitlist if the show does that
+    DELETE FROM public.bookings WHERE id = _booking.id;
+    _released := _released + 1;
+  END LOOP;
+
+  RETURN _released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_no_shows() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'release-no-shows',
+  '* * * * *',
+  $$SELECT public.release_no_shows()$$
+);
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Once the show has started, freed seats only go to the waitlist when the
+  -- show releases no-shows to it
+  IF public.booking_state(_show.id) <> 'open'
+    AND NOT (
+      now() >= _show.starts_at
+      AND _show.no_show_grace_minutes IS NOT NULL
+      AND _show.no_show_release_to = 'waitlist'
+    )
+  THEN
+    RETURN;
+  END IF;
+
+  -- Booked again, blocked, or someone is already holding it
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE id = _seat_id AND (is_booked OR NOT public.seat_status_is_bookable(status))
+  )
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  -- First in line who may sit here
+  SELECT * INTO _entry FROM public.waitlist_entries w
+  WHERE w.show_id = _show.id AND w.status = 'waiting'
+    AND public.seat_status_is_bookable_by(
+      (SELECT status FROM public.seats WHERE id = _seat_id), w.user_id
+    )
+  ORDER BY w.joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _offered BOOLEAN;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  -- A live waitlist offer can be claimed after booking closes, e.g. a no-show seat
+  _offered := EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND offered_seat_id = _seat_id
+      AND status = 'offered' AND offer_expires_at > now()
+  );
+
+  IF NOT _offered THEN
+    CASE public.booking_state(_show.id)
+      WHEN 'not_open' THEN RETURN 'booking_not_open';
+      WHEN 'paused' THEN RETURN 'booking_paused';
+      WHEN 'closed' THEN RETURN 'booking_closed';
+      ELSE NULL;
+    END CASE;
+  END IF;
+
+  IF _show.allocation_mode = 'lottery' THEN
+    RETURN 'lottery_only';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _uid) THEN
+    RETURN 'accessible_seat';
+  END IF;
+
+  IF _seat.is_booked THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  -- Held by someone else
+  IF NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- Outcome of seating a walk-in at the door, mapped to a message by the client
+CREATE TYPE public.walk_in_result AS ENUM ('ok', 'seat_taken', 'seat_blocked', 'unknown_user', 'already_booked');
+
+-- An usher gives a free seat to a colleague who turned up without a booking.
+-- They are standing at the door, so the booking starts out checked in.
+CREATE OR REPLACE FUNCTION public.seat_walk_in(_seat_id UUID, _email TEXT)
+RETURNS public.walk_in_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seat public.seats%ROWTYPE;
+  _show_id UUID;
+  _user_id UUID;
+  _constraint TEXT;
+BEGIN
+  IF NOT public.can_check_in(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR NOT public.seat_status_is_bookable(_seat.status) THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.is_booked OR NOT public.seat_is_available(_seat_id) THEN
+    RETURN 'seat_taken';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(trim(_email));
+  IF NOT FOUND THEN
+    RETURN 'unknown_user';
+  END IF;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF public.user_has_booking_for_show(_user_id, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id, checked_in_at, checked_in_by)
+  VALUES (_user_id, _seat_id, _show_id, now(), auth.uid());
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+-- Every no-show, for spotting repeat offenders
+CREATE OR REPLACE FUNCTION public.get_no_show_report()
+RETURNS TABLE(
+  user_id UUID,
+  email TEXT,
+  show_id UUID,
+  show_title TEXT,
+  seat_label TEXT,
+  released_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.user_id, u.email::TEXT, n.show_id, sh.title, n.seat_label, n.released_at
+  FROM public.no_shows n
+  JOIN auth.users u ON u.id = n.user_id
+  JOIN public.shows sh ON sh.id = n.show_id
+  WHERE public.has_role(auth.uid(), 'admin')
+  ORDER BY n.released_at DESC
+$$;
@@ -0,0 +1,307 @@
+-- How long a colleague has to accept a seat handed over to them
+ALTER TABLE public.shows ADD COLUMN transfer_accept_minutes INTEGER NOT NULL DEFAULT 1440;
+
+CREATE TYPE public.seat_transfer_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled', 'expired');
+
+-- Seat handovers between colleagues; accepted rows are the handover log
+CREATE TABLE public.seat_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  from_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seat_label TEXT NOT NULL,
+  status public.seat_transfer_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ
+);
+
+-- A seat can only be offered to one colleague at a time
+CREATE UNIQUE INDEX seat_transfers_pending_key
+ON public.seat_transfers (booking_id)
+WHERE status = 'pending';
+
+CREATE INDEX seat_transfers_show_idx ON public.seat_transfers (show_id, created_at);
+
+ALTER TABLE public.seat_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own seat transfers"
+ON public.seat_transfers
+FOR SELECT
+TO authenticated
+USING (auth.uid() = from_user_id OR auth.uid() = to_user_id);
+
+CREATE POLICY "Admins can view seat transfers"
+ON public.seat_transfers
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Outcome of offering, answering or cancelling a transfer, mapped to a message by the client
+CREATE TYPE public.seat_transfer_result AS ENUM (
+  'ok',
+  'not_found',
+  'transfer_closed',
+  'unknown_user',
+  'self_transfer',
+  'already_booked',
+  'already_offered',
+  'has_companion',
+  'not_eligible',
+  'expired'
+);
+
+-- The new holder may have been waiting for a seat; settle their entry like a fresh booking
+DROP TRIGGER on_booking_settle_waitlist ON public.bookings;
+
+CREATE TRIGGER on_booking_settle_waitlist
+AFTER INSERT OR UPDATE OF user_id ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_waitlist_on_booking();
+
+-- Offer the caller's seat to an allow-listed colleague who has no seat for the show yet
+CREATE OR REPLACE FUNCTION public.offer_seat_transfer(_booking_id UUID, _email TEXT)
+RETURNS public.seat_transfer_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _booking public.bookings%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _recipient UUID;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Companion seats go with their booking, and group invites must be accepted first
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = _uid AND companion_for IS NULL
+    AND group_status IS DISTINCT FROM 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _booking.show_id;
+  IF now() >= _show.starts_at THEN
+    RETURN 'transfer_closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE companion_for = _booking.id) THEN
+    RETURN 'has_companion';
+  END IF;
+
+  SELECT u.id INTO _recipient
+  FROM auth.users u
+  JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE a.email = lower(trim(_email));
+  IF NOT FOUND THEN
+    RETURN 'unknown_user';
+  END IF;
+
+  IF _recipient = _uid THEN
+    RETURN 'self_transfer';
+  END IF;
+
+  IF public.user_has_booking_for_show(_recipient, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _booking.seat_id;
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _recipient) THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  -- An unanswered offer that ran out no longer blocks a new one
+  UPDATE public.seat_transfers SET status = 'expired'
+  WHERE booking_id = _booking.id AND status = 'pending' AND expires_at <= now();
+
+  IF EXISTS (SELECT 1 FROM public.seat_transfers WHERE booking_id = _booking.id AND status = 'pending') THEN
+    RETURN 'already_offered';
+  END IF;
+
+  INSERT INTO public.seat_transfers (booking_id, show_id, from_user_id, to_user_id, seat_label, expires_at)
+  VALUES (
+    _booking.id, _show.id, _uid, _recipient,
+    public.seat_label(_seat.row_num, _seat.col_num),
+    LEAST(now() + make_interval(mins => _show.transfer_accept_minutes), _show.starts_at)
+  );
+
+  RETURN 'ok';
+END;
+$$;
+
+-- The recipient accepts or declines; accepting hands the booking over in one step
+CREATE OR REPLACE FUNCTION public.respond_to_seat_transfer(_transfer_id UUID, _accept BOOLEAN)
+RETURNS public.seat_transfer_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _transfer public.seat_transfers%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+BEGIN
+  SELECT * INTO _transfer FROM public.seat_transfers
+  WHERE id = _transfer_id AND to_user_id = _uid AND status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.seat_transfers SET status = 'declined', responded_at = now() WHERE id = _transfer.id;
+    RETURN 'ok';
+  END IF;
+
+  IF _transfer.expires_at <= now() THEN
+    UPDATE public.seat_transfers SET status = 'expired' WHERE id = _transfer.id;
+    RETURN 'expired';
+  END IF;
+
+  -- The sender may have released the seat since offering it
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _transfer.booking_id AND user_id = _transfer.from_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    UPDATE public.seat_transfers SET status = 'cancelled' WHERE id = _transfer.id;
+    RETURN 'not_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE companion_for = _booking.id) THEN
+    UPDATE public.seat_transfers SET status = 'cancelled' WHERE id = _transfer.id;
+    RETURN 'has_companion';
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _booking.show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _booking.seat_id;
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _uid) THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  UPDATE public.bookings
+  SET user_id = _uid, checked_in_at = NULL, checked_in_by = NULL
+  WHERE id = _booking.id;
+
+  -- The sender may have changed seats while the offer was open; log the seat actually handed over
+  UPDATE public.seat_transfers
+  SET status = 'accepted', responded_at = now(), seat_label = public.seat_label(_seat.row_num, _seat.col_num)
+  WHERE id = _transfer.id;
+
+  -- Other offers to the new holder for this show can no longer be accepted
+  UPDATE public.seat_transfers SET status = 'cancelled'
+  WHERE to_user_id = _uid AND show_id = _booking.show_id AND status = 'pending';
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_booked';
+END;
+$$;
+
+-- The sender withdraws an offer that has not been answered yet
+CREATE OR REPLACE FUNCTION public.cancel_seat_transfer(_transfer_id UUID)
+RETURNS public.seat_transfer_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.seat_transfers
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = _transfer_id AND from_user_id = auth.uid() AND status = 'pending';
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+-- Close offers that ran out or whose booking was released
+CREATE OR REPLACE FUNCTION public.expire_seat_transfers()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.seat_transfers
+  SET status = CASE WHEN booking_id IS NULL THEN 'cancelled' ELSE 'expired' END::public.seat_transfer_status
+  WHERE status = 'pending' AND (expires_at <= now() OR booking_id IS NULL)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_seat_transfers() FROM PUBLIC, anon, authenticated;
+
+-- Open offers the caller made or received for a show, with the seat as it is now
+CREATE OR REPLACE FUNCTION public.get_my_seat_transfers(_show_id UUID)
+RETURNS TABLE (
+  id UUID,
+  is_incoming BOOLEAN,
+  from_email TEXT,
+  to_email TEXT,
+  seat_label TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.to_user_id = auth.uid(), f.email::TEXT, r.email::TEXT,
+    public.seat_label(s.row_num, s.col_num), t.expires_at
+  FROM public.seat_transfers t
+  JOIN public.bookings b ON b.id = t.booking_id
+  JOIN public.seats s ON s.id = b.seat_id
+  JOIN auth.users f ON f.id = t.from_user_id
+  JOIN auth.users r ON r.id = t.to_user_id
+  WHERE t.show_id = _show_id
+    AND t.status = 'pending'
+    AND t.expires_at > now()
+    AND auth.uid() IN (t.from_user_id, t.to_user_id)
+  ORDER BY t.created_at
+$$;
+
+-- Every transfer for a show, for admins answering "who has this seat now?"
+CREATE OR REPLACE FUNCTION public.get_seat_transfer_log(_show_id UUID)
+RETURNS TABLE (
+  id UUID,
+  from_email TEXT,
+  to_email TEXT,
+  seat_label TEXT,
+  status public.seat_transfer_status,
+  created_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, f.email::TEXT, r.email::TEXT, t.seat_label, t.status, t.created_at, t.responded_at
+  FROM public.seat_transfers t
+  JOIN auth.users f ON f.id = t.from_user_id
+  JOIN auth.users r ON r.id = t.to_user_id
+  WHERE t.show_id = _show_id
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY t.created_at DESC
+$$;
+
+SELECT cron.schedule(
+  'expire-seat-transfers',
+  '* * * * *',
+  $$SELECT public.expire_seat_transfers()$$
+);
+
+-- Let the dashboard pick up offers and answers as they happen
+ALTER TABLE public.seat_transfers REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.seat_transfers;
@@ -0,0 +1,325 @@
+-- Checked once the whole statement has run instead of row by row, so a single
+-- UPDATE can exchange the seats of two bookings
+ALTER TABLE public.bookings
+  DROP CONSTRAINT bookings_seat_id_key,
+  ADD CONSTRAINT bookings_seat_id_key UNIQUE (seat_id) DEFERRABLE INITIALLY IMMEDIATE;
+
+-- In a swap the old seat is taken over by the other booking in the same statement,
+-- so only free it when nobody holds it any more
+CREATE OR REPLACE FUNCTION public.handle_booking_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.seat_id <> NEW.seat_id THEN
+    UPDATE public.seats
+    SET is_booked = EXISTS (SELECT 1 FROM public.bookings WHERE seat_id = OLD.seat_id)
+    WHERE id = OLD.seat_id;
+    UPDATE public.seats SET is_booked = true WHERE id = NEW.seat_id;
+    DELETE FROM public.seat_holds WHERE seat_id = NEW.seat_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TYPE public.seat_swap_status AS ENUM ('pending', 'accepted', 'declined', 'cancelled');
+
+-- A request to exchange seats with whoever holds another booked seat
+CREATE TABLE public.seat_swaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  from_booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  to_booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  from_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The seats as they were when asked; a swap is only made if neither has moved since
+  from_seat_id UUID NOT NULL REFERENCES public.seats(id) ON DELETE CASCADE,
+  to_seat_id UUID NOT NULL REFERENCES public.seats(id) ON DELETE CASCADE,
+  status public.seat_swap_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  responded_at TIMESTAMPTZ
+);
+
+-- One open request per booking at a time
+CREATE UNIQUE INDEX seat_swaps_pending_key
+ON public.seat_swaps (from_booking_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.seat_swaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own seat swaps"
+ON public.seat_swaps
+FOR SELECT
+TO authenticated
+USING (auth.uid() = from_user_id OR auth.uid() = to_user_id);
+
+CREATE POLICY "Admins can view seat swaps"
+ON public.seat_swaps
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Outcome of a swap request, answer or admin swap, mapped to a message by the client
+CREATE TYPE public.seat_swap_result AS ENUM (
+  'ok',
+  'not_found',
+  'own_seat',
+  'seat_not_booked',
+  'changes_closed',
+  'has_companion',
+  'not_eligible',
+  'already_requested',
+  'seats_changed',
+  'different_show'
+);
+
+-- Exchange the seats of two bookings in one statement; callers lock and validate both
+CREATE OR REPLACE FUNCTION public.exchange_booking_seats(_first_id UUID, _second_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _first_seat UUID;
+  _second_seat UUID;
+BEGIN
+  SELECT seat_id INTO _first_seat FROM public.bookings WHERE id = _first_id;
+  SELECT seat_id INTO _second_seat FROM public.bookings WHERE id = _second_id;
+
+  UPDATE public.bookings
+  SET seat_id = CASE id WHEN _first_id THEN _second_seat ELSE _first_seat END
+  WHERE id IN (_first_id, _second_id);
+
+  -- Any other open request involving either booking was made for the old seats
+  UPDATE public.seat_swaps SET status = 'cancelled'
+  WHERE status = 'pending'
+    AND (from_booking_id IN (_first_id, _second_id) OR to_booking_id IN (_first_id, _second_id));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exchange_booking_seats(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Ask the holder of another booked seat to swap with the caller's seat
+CREATE OR REPLACE FUNCTION public.request_seat_swap(_booking_id UUID, _seat_id UUID)
+RETURNS public.seat_swap_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _mine public.bookings%ROWTYPE;
+  _theirs public.bookings%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _mine FROM public.bookings
+  WHERE id = _booking_id AND user_id = _uid AND companion_for IS NULL
+    AND group_status IS DISTINCT FROM 'pending';
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_mine.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT * INTO _theirs FROM public.bookings WHERE seat_id = _seat_id AND show_id = _mine.show_id;
+  IF NOT FOUND OR _theirs.group_status = 'pending' THEN
+    RETURN 'seat_not_booked';
+  END IF;
+
+  IF _theirs.user_id = _uid THEN
+    RETURN 'own_seat';
+  END IF;
+
+  -- A companion seat has to stay next to its accessible seat
+  IF _theirs.companion_for IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.bookings WHERE companion_for IN (_mine.id, _theirs.id))
+  THEN
+    RETURN 'has_companion';
+  END IF;
+
+  IF NOT public.seat_status_is_bookable_by((SELECT status FROM public.seats WHERE id = _theirs.seat_id), _uid)
+    OR NOT public.seat_status_is_bookable_by((SELECT status FROM public.seats WHERE id = _mine.seat_id), _theirs.user_id)
+  THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.seat_swaps WHERE from_booking_id = _mine.id AND status = 'pending') THEN
+    RETURN 'already_requested';
+  END IF;
+
+  INSERT INTO public.seat_swaps (
+    show_id, from_booking_id, to_booking_id, from_user_id, to_user_id, from_seat_id, to_seat_id
+  )
+  VALUES (_mine.show_id, _mine.id, _theirs.id, _uid, _theirs.user_id, _mine.seat_id, _theirs.seat_id);
+
+  RETURN 'ok';
+END;
+$$;
+
+-- The holder of the requested seat accepts or declines. A swap needs both holders to agree,
+-- so it does not count against either seat-change limit.
+CREATE OR REPLACE FUNCTION public.respond_to_seat_swap(_swap_id UUID, _accept BOOLEAN)
+RETURNS public.seat_swap_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _swap public.seat_swaps%ROWTYPE;
+BEGIN
+  SELECT * INTO _swap FROM public.seat_swaps
+  WHERE id = _swap_id AND to_user_id = auth.uid() AND status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT _accept THEN
+    UPDATE public.seat_swaps SET status = 'declined', responded_at = now() WHERE id = _swap.id;
+    RETURN 'ok';
+  END IF;
+
+  IF NOT public.booking_changes_open(_swap.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  -- Lock both bookings in a fixed order so crossing requests cannot deadlock
+  PERFORM 1 FROM public.bookings
+  WHERE id IN (_swap.from_booking_id, _swap.to_booking_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE id = _swap.from_booking_id AND user_id = _swap.from_user_id AND seat_id = _swap.from_seat_id
+    )
+    OR NOT EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE id = _swap.to_booking_id AND user_id = _swap.to_user_id AND seat_id = _swap.to_seat_id
+    )
+  THEN
+    UPDATE public.seat_swaps SET status = 'cancelled' WHERE id = _swap.id;
+    RETURN 'seats_changed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE companion_for IN (_swap.from_booking_id, _swap.to_booking_id)) THEN
+    UPDATE public.seat_swaps SET status = 'cancelled' WHERE id = _swap.id;
+    RETURN 'has_companion';
+  END IF;
+
+  -- Either holder may have changed their accessible seating preference since
+  IF NOT public.seat_status_is_bookable_by((SELECT status FROM public.seats WHERE id = _swap.to_seat_id), _swap.from_user_id)
+    OR NOT public.seat_status_is_bookable_by((SELECT status FROM public.seats WHERE id = _swap.from_seat_id), _swap.to_user_id)
+  THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  UPDATE public.seat_swaps SET status = 'accepted', responded_at = now() WHERE id = _swap.id;
+  PERFORM public.exchange_booking_seats(_swap.from_booking_id, _swap.to_booking_id);
+
+  RETURN 'ok';
+END;
+$$;
+
+-- The requester withdraws a request that has not been answered yet
+CREATE OR REPLACE FUNCTION public.cancel_seat_swap(_swap_id UUID)
+RETURNS public.seat_swap_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.seat_swaps
+  SET status = 'cancelled', responded_at = now()
+  WHERE id = _swap_id AND from_user_id = auth.uid() AND status = 'pending';
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+-- Open requests the caller made or received for a show. The requester's email is only
+-- shown to the holder being asked; requesters just see the seat they asked for.
+CREATE OR REPLACE FUNCTION public.get_my_seat_swaps(_show_id UUID)
+RETURNS TABLE (
+  id UUID,
+  is_incoming BOOLEAN,
+  from_email TEXT,
+  from_seat_label TEXT,
+  to_seat_label TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.to_user_id = auth.uid(), u.email::TEXT,
+    public.seat_label(fs.row_num, fs.col_num), public.seat_label(ts.row_num, ts.col_num), w.created_at
+  FROM public.seat_swaps w
+  JOIN public.bookings fb ON fb.id = w.from_booking_id AND fb.seat_id = w.from_seat_id
+  JOIN public.bookings tb ON tb.id = w.to_booking_id AND tb.seat_id = w.to_seat_id
+  JOIN public.seats fs ON fs.id = w.from_seat_id
+  JOIN public.seats ts ON ts.id = w.to_seat_id
+  JOIN auth.users u ON u.id = w.from_user_id
+  WHERE w.show_id = _show_id
+    AND w.status = 'pending'
+    AND auth.uid() IN (w.from_user_id, w.to_user_id)
+  ORDER BY w.created_at
+$$;
+
+-- Admins swap two bookings of the same show straight away
+CREATE OR REPLACE FUNCTION public.swap_bookings(_first_booking_id UUID, _second_booking_id UUID)
+RETURNS public.seat_swap_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _first public.bookings%ROWTYPE;
+  _second public.bookings%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  PERFORM 1 FROM public.bookings
+  WHERE id IN (_first_booking_id, _second_booking_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO _first FROM public.bookings WHERE id = _first_booking_id;
+  SELECT * INTO _second FROM public.bookings WHERE id = _second_booking_id;
+  IF _first.id IS NULL OR _second.id IS NULL OR _first.id = _second.id THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF _first.show_id <> _second.show_id THEN
+    RETURN 'different_show';
+  END IF;
+
+  IF _first.companion_for IS NOT NULL OR _second.companion_for IS NOT NULL
+    OR EXISTS (SELECT 1 FROM public.bookings WHERE companion_for IN (_first.id, _second.id))
+  THEN
+    RETURN 'has_companion';
+  END IF;
+
+  PERFORM public.exchange_booking_seats(_first.id, _second.id);
+
+  RETURN 'ok';
+END;
+$$;
+
+-- Let the dashboard pick up requests and answers as they happen
+ALTER TABLE public.seat_swaps REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.seat_swaps;
@@ -0,0 +1,90 @@
+-- Booking state as a given user sees it, for callers without a session such as triggers and cron
+CREATE OR REPLACE FUNCTION public.booking_state(_show_id UUID, _user_id UUID)
+RETURNS public.booking_state
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN now() >= COALESCE(booking_closes_at, starts_at) THEN 'closed'
+    WHEN booking_opens_at IS NOT NULL
+      AND now() < booking_opens_at - make_interval(mins => public.get_early_access_minutes(_user_id))
+      THEN 'not_open'
+    WHEN booking_paused THEN 'paused'
+    ELSE 'open'
+  END::public.booking_state
+  FROM public.shows WHERE id = _show_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.booking_state(_show_id UUID)
+RETURNS public.booking_state
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.booking_state(_show_id, auth.uid())
+$$;
+
+-- Offers are made from triggers and cron, so check the window for the person
+-- being offered the seat rather than whoever freed it
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+  _releasing_no_shows BOOLEAN;
+BEGIN
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Once the show has started, freed seats only go to the waitlist when the
+  -- show releases no-shows to it
+  _releasing_no_shows := now() >= _show.starts_at
+    AND _show.no_show_grace_minutes IS NOT NULL
+    AND _show.no_show_release_to = 'waitlist';
+
+  -- Booked again, blocked, or someone is already holding it
+  IF EXISTS (
+    SELECT 1 FROM public.seats
+    WHERE id = _seat_id AND (is_booked OR NOT public.seat_status_is_bookable(status))
+  )
+    OR EXISTS (SELECT 1 FROM public.seat_holds WHERE seat_id = _seat_id AND expires_at > now())
+  THEN
+    RETURN;
+  END IF;
+
+  -- First in line who may sit here and whose booking window is open
+  SELECT * INTO _entry FROM public.waitlist_entries w
+  WHERE w.show_id = _show.id AND w.status = 'waiting'
+    AND (_releasing_no_shows OR public.booking_state(_show.id, w.user_id) = 'open')
+    AND public.seat_status_is_bookable_by(
+      (SELECT status FROM public.seats WHERE id = _seat_id), w.user_id
+    )
+  ORDER BY w.joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
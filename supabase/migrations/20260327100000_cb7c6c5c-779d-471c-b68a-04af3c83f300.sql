@@ -0,0 +1,78 @@
+-- Users only ask for accessible seating; an admin decides whether to grant it
+ALTER TABLE public.allowed_users
+  ADD COLUMN accessible_seating_requested BOOLEAN NOT NULL DEFAULT false;
+
+-- Flags so far could be switched on by the user, so send them back through review
+UPDATE public.allowed_users
+SET accessible_seating_requested = true, needs_accessible_seating = false
+WHERE needs_accessible_seating;
+
+DROP FUNCTION public.set_my_accessible_seating(BOOLEAN);
+
+-- Asking leaves the seats locked until an admin agrees; withdrawing also gives up a granted flag
+CREATE OR REPLACE FUNCTION public.request_accessible_seating(_requested BOOLEAN)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.allowed_users a
+  SET accessible_seating_requested = _requested AND NOT a.needs_accessible_seating,
+    needs_accessible_seating = a.needs_accessible_seating AND _requested
+  FROM auth.users u
+  WHERE u.id = auth.uid() AND a.email = lower(u.email)
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_accessible_seating_request()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT a.accessible_seating_requested
+    FROM auth.users u
+    JOIN public.allowed_users a ON a.email = lower(u.email)
+    WHERE u.id = auth.uid()
+  ), false)
+$$;
+
+-- Users now come with any open accessible seating request
+DROP FUNCTION public.get_all_users_with_roles();
+
+CREATE OR REPLACE FUNCTION public.get_all_users_with_roles()
+RETURNS TABLE(
+  id UUID,
+  email TEXT,
+  role app_role,
+  tier_id UUID,
+  needs_accessible_seating BOOLEAN,
+  accessible_seating_requested BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::TEXT,
+    CASE
+      WHEN bool_or(r.role = 'admin') THEN 'admin'::app_role
+      WHEN bool_or(r.role = 'usher') THEN 'usher'::app_role
+      ELSE 'user'::app_role
+    END,
+    a.tier_id,
+    COALESCE(a.needs_accessible_seating, false),
+    COALESCE(a.accessible_seating_requested, false)
+  FROM auth.users u
+  LEFT JOIN public.user_roles r ON r.user_id = u.id
+  LEFT JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY u.id, u.email, a.tier_id, a.needs_accessible_seating, a.accessible_seating_requested
+  ORDER BY u.email;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Holding another seat must not drop a seat the waitlist is offering the user
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  PERFORM 1 FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF (public.booking_state(_show_id) <> 'open'
+      OR (SELECT allocation_mode FROM public.shows WHERE id = _show_id) = 'lottery')
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF NOT public.seat_is_available(_seat_id)
+    OR NOT public.seat_status_is_bookable_by(
+      (SELECT status FROM public.seats WHERE id = _seat_id), auth.uid()
+    )
+  THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show, besides a seat offered to them from the waitlist
+  DELETE FROM public.seat_holds h
+  WHERE h.user_id = auth.uid() AND h.show_id = _show_id AND h.seat_id <> _seat_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_entries w
+      WHERE w.user_id = h.user_id AND w.show_id = h.show_id
+        AND w.status = 'offered' AND w.offered_seat_id = h.seat_id
+    );
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
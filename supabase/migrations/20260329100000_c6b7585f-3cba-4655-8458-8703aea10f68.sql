@@ -0,0 +1,566 @@
+-- Shared eligibility checks for the booking RPCs. The functions below are
+-- their previous definitions with the copied checks swapped for these helpers.
+-- Behaviour changes:
+--   * book_seat reports already_booked before a closed or unopened window.
+--     Claiming a live waitlist offer after booking closes is unchanged from
+--     the no-show release (20260323).
+--   * book_group checks each member's seat against that member, so a seat the
+--     member is holding no longer counts as taken. It reports the first failing
+--     seat's reason rather than blocked, then accessible, then taken.
+--   * offer_seat_to_waitlist can offer a seat to the person already holding it.
+--   * get_free_seats_ranked with a user, and so the lottery draw, skip seats
+--     someone else is holding.
+
+-- Whether a user may book seats for a show right now, as a booking result
+CREATE OR REPLACE FUNCTION public.check_booking_window(_show_id UUID, _user_id UUID)
+RETURNS public.booking_result
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE public.booking_state(id, _user_id)
+      WHEN 'not_open' THEN 'booking_not_open'
+      WHEN 'paused' THEN 'booking_paused'
+      WHEN 'closed' THEN 'booking_closed'
+      ELSE CASE WHEN allocation_mode = 'lottery' THEN 'lottery_only' ELSE 'ok' END
+    END
+    FROM public.shows WHERE id = _show_id
+  ), 'booking_closed')::public.booking_result
+$$;
+
+-- Whether a user may sit in a seat: not blocked, not kept for accessible
+-- seating, and neither booked nor held by someone else
+CREATE OR REPLACE FUNCTION public.check_seat_bookable(_user_id UUID, _seat public.seats)
+RETURNS public.booking_result
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN NOT public.seat_status_is_bookable(_seat.status) THEN 'seat_blocked'
+    WHEN NOT public.seat_status_is_bookable_by(_seat.status, _user_id) THEN 'accessible_seat'
+    WHEN _seat.is_booked OR EXISTS (
+      SELECT 1 FROM public.seat_holds h
+      WHERE h.seat_id = _seat.id
+        AND h.expires_at > now()
+        AND h.user_id IS DISTINCT FROM _user_id
+    ) THEN 'seat_taken'
+    ELSE 'ok'
+  END::public.booking_result
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_booking_window(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_seat_bookable(UUID, public.seats) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.book_seat(_seat_id UUID)
+RETURNS public.booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _offered BOOLEAN;
+  _result public.booking_result;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent attempts on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE seat_layout_id = _seat.seat_layout_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  -- A live waitlist offer can be claimed after booking closes, e.g. a no-show seat
+  _offered := EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND offered_seat_id = _seat_id
+      AND status = 'offered' AND offer_expires_at > now()
+  );
+
+  IF NOT _offered THEN
+    _result := public.check_booking_window(_show.id, _uid);
+    IF _result <> 'ok' THEN
+      RETURN _result;
+    END IF;
+  END IF;
+
+  IF public.user_has_booking_for_show(_uid, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  _result := public.check_seat_bookable(_uid, _seat);
+  IF _result <> 'ok' THEN
+    RETURN _result;
+  END IF;
+
+  INSERT INTO public.bookings (user_id, seat_id, show_id)
+  VALUES (_uid, _seat_id, _show.id);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.change_booking_seat(_booking_id UUID, _seat_id UUID)
+RETURNS public.booking_change_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _max_changes INTEGER;
+  _result public.booking_result;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = auth.uid() AND companion_for IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF NOT public.booking_changes_open(_booking.show_id) THEN
+    RETURN 'changes_closed';
+  END IF;
+
+  SELECT max_seat_changes INTO _max_changes FROM public.shows WHERE id = _booking.show_id;
+  IF _booking.change_count >= _max_changes THEN
+    RETURN 'change_limit_reached';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+  IF NOT FOUND OR public.get_show_for_seat(_seat_id) IS DISTINCT FROM _booking.show_id THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  IF _seat.id = _booking.seat_id THEN
+    RETURN 'ok';
+  END IF;
+
+  _result := public.check_seat_bookable(auth.uid(), _seat);
+  IF _result <> 'ok' THEN
+    RETURN _result::TEXT::public.booking_change_result;
+  END IF;
+
+  -- on_booking_updated frees the old seat and freezes the new one
+  UPDATE public.bookings
+  SET seat_id = _seat_id, change_count = change_count + 1
+  WHERE id = _booking_id;
+
+  -- The companion seat belonged next to the old seat
+  DELETE FROM public.bookings WHERE companion_for = _booking_id;
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'seat_taken';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_group(_show_id UUID, _assignments JSONB)
+RETURNS public.group_booking_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+  _definition JSONB;
+  _seat_ids UUID[];
+  _user_ids UUID[];
+  _count INTEGER;
+  _group_id UUID;
+  _result public.booking_result;
+  _constraint TEXT;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+  IF NOT FOUND THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  -- The leader books for everyone, so their window applies
+  _result := public.check_booking_window(_show.id, _uid);
+  IF _result <> 'ok' THEN
+    RETURN _result::TEXT::public.group_booking_result;
+  END IF;
+
+  SELECT array_agg((a->>'seat_id')::UUID), array_agg((a->>'user_id')::UUID)
+  INTO _seat_ids, _user_ids
+  FROM jsonb_array_elements(_assignments) a;
+
+  _count := COALESCE(array_length(_seat_ids, 1), 0);
+
+  -- At least two distinct seats, each for a different colleague
+  IF _count < 2
+    OR (SELECT count(DISTINCT s) FROM unnest(_seat_ids) s) <> _count
+    OR (SELECT count(DISTINCT u) FROM unnest(_user_ids) u WHERE u IS NOT NULL) <> _count
+  THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Every member must be an allow-listed user
+  IF EXISTS (
+    SELECT 1 FROM unnest(_user_ids) m(user_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM auth.users u
+      JOIN public.allowed_users a ON a.email = lower(u.email)
+      WHERE u.id = m.user_id
+    )
+  ) THEN
+    RETURN 'invalid_group';
+  END IF;
+
+  -- Lock the seats in a fixed order so overlapping groups cannot deadlock
+  PERFORM 1 FROM public.seats WHERE id = ANY(_seat_ids) ORDER BY id FOR UPDATE;
+
+  IF (SELECT count(*) FROM public.seats
+      WHERE id = ANY(_seat_ids) AND seat_layout_id = _show.seat_layout_id) <> _count
+  THEN
+    RETURN 'seat_blocked';
+  END IF;
+
+  SELECT definition INTO _definition FROM public.seat_layout WHERE id = _show.seat_layout_id;
+
+  -- One row, consecutive columns, no aisle in between
+  IF NOT (
+    SELECT count(DISTINCT row_num) = 1
+      AND max(col_num) - min(col_num) + 1 = _count
+      AND count(DISTINCT public.layout_section_index(_definition, col_num)) = 1
+    FROM public.seats WHERE id = ANY(_seat_ids)
+  ) THEN
+    RETURN 'not_adjacent';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_user_ids) u WHERE public.user_has_booking_for_show(u, _show.id)) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  -- Each colleague must be able to sit in the seat picked for them
+  SELECT c.result INTO _result
+  FROM unnest(_seat_ids, _user_ids) AS m(seat_id, user_id)
+  JOIN public.seats s ON s.id = m.seat_id
+  CROSS JOIN LATERAL (SELECT public.check_seat_bookable(m.user_id, s) AS result) c
+  WHERE c.result <> 'ok'
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN _result::TEXT::public.group_booking_result;
+  END IF;
+
+  INSERT INTO public.booking_groups (show_id, leader_id)
+  VALUES (_show.id, _uid)
+  RETURNING id INTO _group_id;
+
+  -- The leader's own seat needs no acceptance
+  INSERT INTO public.bookings (user_id, seat_id, show_id, group_id, group_status)
+  SELECT u, s, _show.id, _group_id,
+    CASE WHEN u = _uid THEN 'accepted' ELSE 'pending' END::public.group_member_status
+  FROM unnest(_seat_ids, _user_ids) AS m(s, u);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+    IF _constraint = 'bookings_seat_id_key' THEN
+      RETURN 'seat_taken';
+    END IF;
+    RETURN 'already_booked';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seat public.seats%ROWTYPE;
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF public.check_booking_window(_show_id, auth.uid()) <> 'ok'
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF public.check_seat_bookable(auth.uid(), _seat) <> 'ok' THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show, besides a seat offered to them from the waitlist
+  DELETE FROM public.seat_holds h
+  WHERE h.user_id = auth.uid() AND h.show_id = _show_id AND h.seat_id <> _seat_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_entries w
+      WHERE w.user_id = h.user_id AND w.show_id = h.show_id
+        AND w.status = 'offered' AND w.offered_seat_id = h.seat_id
+    );
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+  _releasing_no_shows BOOLEAN;
+BEGIN
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id;
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR _show.allocation_mode = 'lottery' THEN
+    RETURN;
+  END IF;
+
+  -- Once the show has started, freed seats only go to the waitlist when the
+  -- show releases no-shows to it
+  _releasing_no_shows := now() >= _show.starts_at
+    AND _show.no_show_grace_minutes IS NOT NULL
+    AND _show.no_show_release_to = 'waitlist';
+
+  -- First in line who may sit here and whose booking window is open
+  SELECT * INTO _entry FROM public.waitlist_entries w
+  WHERE w.show_id = _show.id AND w.status = 'waiting'
+    AND (_releasing_no_shows OR public.check_booking_window(_show.id, w.user_id) = 'ok')
+    AND public.check_seat_bookable(w.user_id, _seat) = 'ok'
+  ORDER BY w.joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_waitlist(_show_id UUID)
+RETURNS public.waitlist_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _show public.shows%ROWTYPE;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF public.check_booking_window(_show_id, _uid) <> 'ok' THEN
+    RETURN 'booking_closed';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id;
+
+  IF public.user_has_booking_for_show(_uid, _show_id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.waitlist_entries
+    WHERE user_id = _uid AND show_id = _show_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN 'already_waiting';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seats s
+    WHERE s.seat_layout_id = _show.seat_layout_id
+      AND public.check_seat_bookable(_uid, s) = 'ok'
+  ) THEN
+    RETURN 'seats_available';
+  END IF;
+
+  INSERT INTO public.waitlist_entries (show_id, user_id) VALUES (_show_id, _uid);
+
+  RETURN 'ok';
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN 'already_waiting';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_free_seats_ranked(
+  _show_id UUID,
+  _section_index INTEGER DEFAULT NULL,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.seats
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.*
+  FROM public.shows sh
+  JOIN public.seat_layout l ON l.id = sh.seat_layout_id
+  JOIN public.seats s ON s.seat_layout_id = l.id
+  WHERE sh.id = _show_id
+    AND CASE
+      WHEN _user_id IS NULL THEN NOT s.is_booked AND public.seat_status_is_bookable(s.status)
+      ELSE public.check_seat_bookable(_user_id, s) = 'ok'
+    END
+    AND (_section_index IS NULL OR public.layout_section_index(l.definition, s.col_num) = _section_index)
+  ORDER BY
+    abs(s.row_num - round(l.total_rows * 0.6)),
+    abs(s.col_num - (l.total_columns + 1) / 2.0)
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_lottery_allocation(_show_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _show public.shows%ROWTYPE;
+  _applicant RECORD;
+  _preference RECORD;
+  _seat_id UUID;
+  _rank INTEGER;
+  _allocated INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the lottery';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _show_id FOR UPDATE;
+  IF NOT FOUND OR _show.allocation_mode <> 'lottery' THEN
+    RAISE EXCEPTION 'This show does not allocate by lottery';
+  END IF;
+
+  IF _show.lottery_ran_at IS NOT NULL THEN
+    RAISE EXCEPTION 'The lottery for this show has already run';
+  END IF;
+
+  -- Nobody books around the draw
+  PERFORM 1 FROM public.seats WHERE seat_layout_id = _show.seat_layout_id FOR UPDATE;
+
+  FOR _applicant IN
+    SELECT a.id, a.user_id, w.weight,
+      row_number() OVER (ORDER BY power(random(), 1.0 / w.weight) DESC) AS draw_position
+    FROM public.lottery_applications a
+    CROSS JOIN LATERAL (
+      SELECT COALESCE((
+        SELECT t.lottery_weight
+        FROM auth.users u
+        JOIN public.allowed_users al ON al.email = lower(u.email)
+        JOIN public.priority_tiers t ON t.id = al.tier_id
+        WHERE u.id = a.user_id
+      ), 1) AS weight
+    ) w
+    WHERE a.show_id = _show_id
+    ORDER BY draw_position
+  LOOP
+    _seat_id := NULL;
+    _rank := NULL;
+
+    IF NOT public.user_has_booking_for_show(_applicant.user_id, _show_id) THEN
+      FOR _preference IN
+        SELECT * FROM public.lottery_preferences
+        WHERE application_id = _applicant.id
+        ORDER BY rank
+      LOOP
+        IF _preference.seat_id IS NOT NULL THEN
+          SELECT s.id INTO _seat_id FROM public.seats s
+          WHERE s.id = _preference.seat_id
+            AND public.check_seat_bookable(_applicant.user_id, s) = 'ok';
+        ELSE
+          SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, _preference.section_index, _applicant.user_id) LIMIT 1;
+        END IF;
+
+        IF _seat_id IS NOT NULL THEN
+          _rank := _preference.rank;
+          EXIT;
+        END IF;
+      END LOOP;
+
+      -- None of their preferences left: best remaining seat, if any
+      IF _seat_id IS NULL THEN
+        SELECT id INTO _seat_id FROM public.get_free_seats_ranked(_show_id, NULL, _applicant.user_id) LIMIT 1;
+      END IF;
+
+      IF _seat_id IS NOT NULL THEN
+        INSERT INTO public.bookings (user_id, seat_id, show_id)
+        VALUES (_applicant.user_id, _seat_id, _show_id);
+        _allocated := _allocated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.lottery_results (application_id, draw_position, weight, seat_id, allocated_rank)
+    VALUES (_applicant.id, _applicant.draw_position, _applicant.weight, _seat_id, _rank);
+  END LOOP;
+
+  UPDATE public.shows SET lottery_ran_at = now() WHERE id = _show_id;
+
+  RETURN _allocated;
+END;
+$$;
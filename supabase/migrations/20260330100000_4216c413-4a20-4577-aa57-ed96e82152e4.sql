@@ -0,0 +1,94 @@
+-- Once the lottery has been drawn, seats nobody won or that winners give back
+-- are first come, first served until the show starts. Before the draw,
+-- booking_closes_at is when applications close.
+CREATE OR REPLACE FUNCTION public.booking_state(_show_id UUID, _user_id UUID)
+RETURNS public.booking_state
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN now() >= CASE
+      WHEN lottery_ran_at IS NOT NULL THEN starts_at
+      ELSE COALESCE(booking_closes_at, starts_at)
+    END THEN 'closed'
+    WHEN booking_opens_at IS NOT NULL
+      AND now() < booking_opens_at - make_interval(mins => public.get_early_access_minutes(_user_id))
+      THEN 'not_open'
+    WHEN booking_paused THEN 'paused'
+    ELSE 'open'
+  END::public.booking_state
+  FROM public.shows WHERE id = _show_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_booking_window(_show_id UUID, _user_id UUID)
+RETURNS public.booking_result
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT CASE public.booking_state(id, _user_id)
+      WHEN 'not_open' THEN 'booking_not_open'
+      WHEN 'paused' THEN 'booking_paused'
+      WHEN 'closed' THEN 'booking_closed'
+      ELSE CASE
+        WHEN allocation_mode = 'lottery' AND lottery_ran_at IS NULL THEN 'lottery_only'
+        ELSE 'ok'
+      END
+    END
+    FROM public.shows WHERE id = _show_id
+  ), 'booking_closed')::public.booking_result
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_to_waitlist(_seat_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seat public.seats%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _expires_at TIMESTAMPTZ;
+  _releasing_no_shows BOOLEAN;
+BEGIN
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id;
+  SELECT * INTO _show FROM public.shows WHERE id = public.get_show_for_seat(_seat_id);
+  IF NOT FOUND OR (_show.allocation_mode = 'lottery' AND _show.lottery_ran_at IS NULL) THEN
+    RETURN;
+  END IF;
+
+  -- Once the show has started, freed seats only go to the waitlist when the
+  -- show releases no-shows to it
+  _releasing_no_shows := now() >= _show.starts_at
+    AND _show.no_show_grace_minutes IS NOT NULL
+    AND _show.no_show_release_to = 'waitlist';
+
+  -- First in line who may sit here and whose booking window is open
+  SELECT * INTO _entry FROM public.waitlist_entries w
+  WHERE w.show_id = _show.id AND w.status = 'waiting'
+    AND (_releasing_no_shows OR public.check_booking_window(_show.id, w.user_id) = 'ok')
+    AND public.check_seat_bookable(w.user_id, _seat) = 'ok'
+  ORDER BY w.joined_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _expires_at := now() + make_interval(mins => _show.waitlist_claim_minutes);
+
+  UPDATE public.waitlist_entries
+  SET status = 'offered', offered_seat_id = _seat_id, offer_expires_at = _expires_at
+  WHERE id = _entry.id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show.id, _entry.user_id, _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE
+  SET show_id = EXCLUDED.show_id, user_id = EXCLUDED.user_id, expires_at = EXCLUDED.expires_at;
+END;
+$$;
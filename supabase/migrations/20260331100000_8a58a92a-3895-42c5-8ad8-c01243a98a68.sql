@@ -0,0 +1,74 @@
+-- Picking a seat the waitlist is offering keeps the offer's longer hold
+CREATE OR REPLACE FUNCTION public.hold_seat(_seat_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _seat public.seats%ROWTYPE;
+  _show_id UUID;
+  _expires_at TIMESTAMPTZ;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the seat so concurrent clicks on it are serialised
+  SELECT * INTO _seat FROM public.seats WHERE id = _seat_id FOR UPDATE;
+
+  _show_id := public.get_show_for_seat(_seat_id);
+  IF _show_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Outside the booking window only seat changes may hold seats
+  IF public.check_booking_window(_show_id, auth.uid()) <> 'ok'
+    AND NOT (public.user_has_booking_for_show(auth.uid(), _show_id)
+      AND public.booking_changes_open(_show_id))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.seat_holds WHERE expires_at <= now();
+
+  IF public.check_seat_bookable(auth.uid(), _seat) <> 'ok' THEN
+    RETURN NULL;
+  END IF;
+
+  -- A user holds at most one seat per show, besides a seat offered to them from the waitlist
+  DELETE FROM public.seat_holds h
+  WHERE h.user_id = auth.uid() AND h.show_id = _show_id AND h.seat_id <> _seat_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_entries w
+      WHERE w.user_id = h.user_id AND w.show_id = h.show_id
+        AND w.status = 'offered' AND w.offered_seat_id = h.seat_id
+    );
+
+  SELECT now() + make_interval(mins => hold_minutes) INTO _expires_at
+  FROM public.shows WHERE id = _show_id;
+
+  INSERT INTO public.seat_holds (seat_id, show_id, user_id, expires_at)
+  VALUES (_seat_id, _show_id, auth.uid(), _expires_at)
+  ON CONFLICT (seat_id) DO UPDATE SET expires_at = GREATEST(seat_holds.expires_at, EXCLUDED.expires_at)
+  RETURNING expires_at INTO _expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Leaving the booking page must not drop a seat still on offer from the waitlist
+CREATE OR REPLACE FUNCTION public.release_seat_hold(_seat_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.seat_holds h
+  WHERE h.seat_id = _seat_id AND h.user_id = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_entries w
+      WHERE w.user_id = h.user_id AND w.offered_seat_id = h.seat_id
+        AND w.status = 'offered' AND w.offer_expires_at > now()
+    )
+$$;
@@ -0,0 +1,50 @@
+-- Companions are picked up by the loop but may already have gone with the
+-- seat they were booked next to, so only count bookings actually deleted
+CREATE OR REPLACE FUNCTION public.release_no_shows()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+  _released INTEGER := 0;
+  _deleted INTEGER;
+BEGIN
+  FOR _booking IN
+    SELECT b.id, b.user_id, b.show_id, b.group_status, b.companion_for,
+      public.seat_label(s.row_num, s.col_num) AS seat_label
+    FROM public.bookings b
+    JOIN public.shows sh ON sh.id = b.show_id
+    JOIN public.seats s ON s.id = b.seat_id
+    WHERE b.checked_in_at IS NULL
+      AND sh.no_show_grace_minutes IS NOT NULL
+      AND now() >= sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      AND b.created_at < sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      -- Deleting the seat would take the companion booking with it
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.companion_for = b.id AND c.checked_in_at IS NOT NULL
+      )
+      AND EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.show_id = sh.id AND c.checked_in_at IS NOT NULL
+      )
+    ORDER BY b.companion_for NULLS FIRST
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    IF _booking.companion_for IS NULL AND _booking.group_status IS DISTINCT FROM 'pending' THEN
+      INSERT INTO public.no_shows (user_id, show_id, seat_label)
+      VALUES (_booking.user_id, _booking.show_id, _booking.seat_label)
+      ON CONFLICT (user_id, show_id) DO NOTHING;
+    END IF;
+
+    -- Frees the seat, which offers it on to the waitlist if the show does that
+    DELETE FROM public.bookings WHERE id = _booking.id;
+    GET DIAGNOSTICS _deleted = ROW_COUNT;
+    _released := _released + _deleted;
+  END LOOP;
+
+  RETURN _released;
+END;
+$$;
@@ -0,0 +1,244 @@
+-- No-shows and seat transfers are history, so deleting a user keeps their
+-- rows and the email they had at the time instead of taking the rows with them
+ALTER TABLE public.no_shows ADD COLUMN email TEXT;
+
+UPDATE public.no_shows n SET email = u.email
+FROM auth.users u
+WHERE u.id = n.user_id;
+
+ALTER TABLE public.no_shows
+  ALTER COLUMN email SET NOT NULL,
+  ALTER COLUMN user_id DROP NOT NULL,
+  DROP CONSTRAINT no_shows_user_id_fkey,
+  ADD CONSTRAINT no_shows_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.seat_transfers
+  ADD COLUMN from_email TEXT,
+  ADD COLUMN to_email TEXT;
+
+UPDATE public.seat_transfers t SET from_email = f.email, to_email = r.email
+FROM auth.users f, auth.users r
+WHERE f.id = t.from_user_id AND r.id = t.to_user_id;
+
+ALTER TABLE public.seat_transfers
+  ALTER COLUMN from_email SET NOT NULL,
+  ALTER COLUMN to_email SET NOT NULL,
+  ALTER COLUMN from_user_id DROP NOT NULL,
+  ALTER COLUMN to_user_id DROP NOT NULL,
+  DROP CONSTRAINT seat_transfers_from_user_id_fkey,
+  ADD CONSTRAINT seat_transfers_from_user_id_fkey
+    FOREIGN KEY (from_user_id) REFERENCES auth.users(id) ON DELETE SET NULL,
+  DROP CONSTRAINT seat_transfers_to_user_id_fkey,
+  ADD CONSTRAINT seat_transfers_to_user_id_fkey
+    FOREIGN KEY (to_user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.release_no_shows()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking RECORD;
+  _released INTEGER := 0;
+  _deleted INTEGER;
+BEGIN
+  FOR _booking IN
+    SELECT b.id, b.user_id, b.show_id, b.group_status, b.companion_for,
+      public.seat_label(s.row_num, s.col_num) AS seat_label
+    FROM public.bookings b
+    JOIN public.shows sh ON sh.id = b.show_id
+    JOIN public.seats s ON s.id = b.seat_id
+    WHERE b.checked_in_at IS NULL
+      AND sh.no_show_grace_minutes IS NOT NULL
+      AND now() >= sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      AND b.created_at < sh.starts_at + make_interval(mins => sh.no_show_grace_minutes)
+      -- Deleting the seat would take the companion booking with it
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.companion_for = b.id AND c.checked_in_at IS NOT NULL
+      )
+      AND EXISTS (
+        SELECT 1 FROM public.bookings c
+        WHERE c.show_id = sh.id AND c.checked_in_at IS NOT NULL
+      )
+    ORDER BY b.companion_for NULLS FIRST
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    IF _booking.companion_for IS NULL AND _booking.group_status IS DISTINCT FROM 'pending' THEN
+      INSERT INTO public.no_shows (user_id, email, show_id, seat_label)
+      VALUES (
+        _booking.user_id, (SELECT email::TEXT FROM auth.users WHERE id = _booking.user_id),
+        _booking.show_id, _booking.seat_label
+      )
+      ON CONFLICT (user_id, show_id) DO NOTHING;
+    END IF;
+
+    -- Frees the seat, which offers it on to the waitlist if the show does that
+    DELETE FROM public.bookings WHERE id = _booking.id;
+    GET DIAGNOSTICS _deleted = ROW_COUNT;
+    _released := _released + _deleted;
+  END LOOP;
+
+  RETURN _released;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.offer_seat_transfer(_booking_id UUID, _email TEXT)
+RETURNS public.seat_transfer_result
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid UUID := auth.uid();
+  _booking public.bookings%ROWTYPE;
+  _show public.shows%ROWTYPE;
+  _seat public.seats%ROWTYPE;
+  _recipient UUID;
+BEGIN
+  IF _uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Companion seats go with their booking, and group invites must be accepted first
+  SELECT * INTO _booking FROM public.bookings
+  WHERE id = _booking_id AND user_id = _uid AND companion_for IS NULL
+    AND group_status IS DISTINCT FROM 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  SELECT * INTO _show FROM public.shows WHERE id = _booking.show_id;
+  IF now() >= _show.starts_at THEN
+    RETURN 'transfer_closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE companion_for = _booking.id) THEN
+    RETURN 'has_companion';
+  END IF;
+
+  SELECT u.id INTO _recipient
+  FROM auth.users u
+  JOIN public.allowed_users a ON a.email = lower(u.email)
+  WHERE a.email = lower(trim(_email));
+  IF NOT FOUND THEN
+    RETURN 'unknown_user';
+  END IF;
+
+  IF _recipient = _uid THEN
+    RETURN 'self_transfer';
+  END IF;
+
+  IF public.user_has_booking_for_show(_recipient, _show.id) THEN
+    RETURN 'already_booked';
+  END IF;
+
+  SELECT * INTO _seat FROM public.seats WHERE id = _booking.seat_id;
+  IF NOT public.seat_status_is_bookable_by(_seat.status, _recipient) THEN
+    RETURN 'not_eligible';
+  END IF;
+
+  -- An unanswered offer that ran out no longer blocks a new one, nor does one
+  -- to a colleague whose account has since been deleted
+  UPDATE public.seat_transfers SET status = 'expired'
+  WHERE booking_id = _booking.id AND status = 'pending' AND expires_at <= now();
+
+  UPDATE public.seat_transfers SET status = 'cancelled'
+  WHERE booking_id = _booking.id AND status = 'pending' AND to_user_id IS NULL;
+
+  IF EXISTS (SELECT 1 FROM public.seat_transfers WHERE booking_id = _booking.id AND status = 'pending') THEN
+    RETURN 'already_offered';
+  END IF;
+
+  INSERT INTO public.seat_transfers (
+    booking_id, show_id, from_user_id, to_user_id, from_email, to_email, seat_label, expires_at
+  )
+  VALUES (
+    _booking.id, _show.id, _uid, _recipient,
+    (SELECT email::TEXT FROM auth.users WHERE id = _uid),
+    (SELECT email::TEXT FROM auth.users WHERE id = _recipient),
+    public.seat_label(_seat.row_num, _seat.col_num),
+    LEAST(now() + make_interval(mins => _show.transfer_accept_minutes), _show.starts_at)
+  );
+
+  RETURN 'ok';
+END;
+$$;
+
+-- Open offers to a deleted colleague can no longer be answered, so leave them out
+CREATE OR REPLACE FUNCTION public.get_my_seat_transfers(_show_id UUID)
+RETURNS TABLE (
+  id UUID,
+  is_incoming BOOLEAN,
+  from_email TEXT,
+  to_email TEXT,
+  seat_label TEXT,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.to_user_id = auth.uid(), t.from_email, t.to_email,
+    public.seat_label(s.row_num, s.col_num), t.expires_at
+  FROM public.seat_transfers t
+  JOIN public.bookings b ON b.id = t.booking_id
+  JOIN public.seats s ON s.id = b.seat_id
+  WHERE t.show_id = _show_id
+    AND t.status = 'pending'
+    AND t.to_user_id IS NOT NULL
+    AND t.expires_at > now()
+    AND auth.uid() IN (t.from_user_id, t.to_user_id)
+  ORDER BY t.created_at
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_seat_transfer_log(_show_id UUID)
+RETURNS TABLE (
+  id UUID,
+  from_email TEXT,
+  to_email TEXT,
+  seat_label TEXT,
+  status public.seat_transfer_status,
+  created_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id, t.from_email, t.to_email, t.seat_label, t.status, t.created_at, t.responded_at
+  FROM public.seat_transfers t
+  WHERE t.show_id = _show_id
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY t.created_at DESC
+$$;
+
+-- No-shows of deleted users have no user id any more, so rows carry their own id
+DROP FUNCTION public.get_no_show_report();
+
+CREATE OR REPLACE FUNCTION public.get_no_show_report()
+RETURNS TABLE(
+  id UUID,
+  user_id UUID,
+  email TEXT,
+  show_id UUID,
+  show_title TEXT,
+  seat_label TEXT,
+  released_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.id, n.user_id, n.email, n.show_id, sh.title, n.seat_label, n.released_at
+  FROM public.no_shows n
+  JOIN public.shows sh ON sh.id = n.show_id
+  WHERE public.has_role(auth.uid(), 'admin')
+  ORDER BY n.released_at DESC
+$$;
@@ -86,11 +86,22 @@ export default {
   				to: {
   					height: '0'
   				}
+  			},
+  			'seat-booked': {
+  				'0%': {
+  					transform: 'scale(1.25)',
+  					boxShadow: '0 0 0 0 hsl(var(--destructive) / 0.6)'
+  				},
+  				'100%': {
+  					transform: 'scale(1)',
+  					boxShadow: '0 0 0 10px hsl(var(--destructive) / 0)'
+  				}
   			}
   		},
   		animation: {
   			'accordion-down': 'accordion-down 0.2s ease-out',
-  			'accordion-up': 'accordion-up 0.2s ease-out'
+  			'accordion-up': 'accordion-up 0.2s ease-out',
+  			'seat-booked': 'seat-booked 0.8s ease-out 2'
   		}
   	}
   },